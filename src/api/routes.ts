@@ -2,9 +2,13 @@ import { Router } from 'express';
 import crypto from 'crypto';
 import fs from 'fs/promises';
 import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import { config } from '../config.js';
-import { SqlService } from '../services/sql.service.js';
+import { SqlService, DEFAULT_TARGET_ID } from '../services/sql.service.js';
 import { WebSocketService } from '../services/websocket.service.js';
+import { DenyRuleError } from '../services/deny-list.service.js';
+import { AuditEntry, AuditFilter, AuditAction, AuditVerdict } from '../services/audit-log.service.js';
 import { SqlConfig, DbType } from '../types/index.js';
 import { logger } from '../utils/logger.js';
 
@@ -28,6 +32,7 @@ export function setWsConnected(connected: boolean) {
 // Storage paths
 const CONFIG_DIR = path.join(process.cwd(), 'config');
 const SQL_CONFIG_PATH = path.join(CONFIG_DIR, 'sql-config.json');
+const SQL_TARGETS_PATH = path.join(CONFIG_DIR, 'sql-targets.json');
 const AUTH_STORAGE_PATH = path.join(CONFIG_DIR, 'auth-storage.json');
 
 // Helper functions for local storage
@@ -49,6 +54,45 @@ async function saveJsonFile(filePath: string, data: unknown): Promise<void> {
   await fs.writeFile(filePath, JSON.stringify(data, null, 2));
 }
 
+function getDefaultPort(dbType: DbType): number {
+  switch (dbType) {
+    case 'postgres':
+      return 5432;
+    case 'mysql':
+      return 3306;
+    default:
+      return 1433;
+  }
+}
+
+// Persisted form of a SQL connection (password kept base64-encoded in _encPassword)
+interface SavedSqlConfig {
+  name?: string;
+  dbType?: DbType;
+  server?: string;
+  port?: number;
+  user?: string;
+  database?: string;
+  readOnly?: boolean;
+  options?: SqlConfig['options'];
+  _encPassword?: string;
+}
+
+function toSqlConfig(saved: SavedSqlConfig): SqlConfig {
+  const dbType = saved.dbType || 'mssql';
+  return {
+    name: saved.name,
+    dbType,
+    server: saved.server || '',
+    port: saved.port || getDefaultPort(dbType),
+    user: saved.user || '',
+    password: Buffer.from(saved._encPassword || '', 'base64').toString('utf-8'),
+    database: saved.database,
+    readOnly: saved.readOnly ?? false,
+    options: saved.options,
+  };
+}
+
 function hashPassword(password: string, salt: string): string {
   return crypto.pbkdf2Sync(password, salt, 10000, 64, 'sha512').toString('hex');
 }
@@ -66,6 +110,7 @@ apiRouter.get('/status', (req, res) => {
     clientId: config.clientId || null,
     sqlConnected: sqlService?.isConnected() || false,
     wsConnected,
+    protocol: wsService?.getProtocolStatus() ?? null,
   });
 });
 
@@ -105,7 +150,7 @@ apiRouter.get('/sql/config', authMiddleware, async (req, res) => {
   try {
     const savedConfig = await loadJsonFile<Partial<SqlConfig> & { _encPassword?: string }>(SQL_CONFIG_PATH, {});
     const dbType = savedConfig.dbType || 'mssql';
-    const defaultPort = dbType === 'postgres' ? 5432 : 1433;
+    const defaultPort = getDefaultPort(dbType);
     // Don't return password
     res.json({
       dbType,
@@ -113,6 +158,7 @@ apiRouter.get('/sql/config', authMiddleware, async (req, res) => {
       port: savedConfig.port || defaultPort,
       user: savedConfig.user || '',
       database: savedConfig.database || '',
+      readOnly: savedConfig.readOnly ?? false,
       encrypt: savedConfig.options?.encrypt ?? true,
       trustServerCertificate: savedConfig.options?.trustServerCertificate ?? true,
       sslMode: savedConfig.options?.sslMode || 'disable',
@@ -125,7 +171,7 @@ apiRouter.get('/sql/config', authMiddleware, async (req, res) => {
 apiRouter.post('/sql/configure', authMiddleware, async (req, res) => {
   try {
     const dbType = (req.body.dbType || 'mssql') as DbType;
-    const defaultPort = dbType === 'postgres' ? 5432 : 1433;
+    const defaultPort = getDefaultPort(dbType);
 
     // If no password provided, keep existing saved password
     let password = req.body.password;
@@ -150,7 +196,8 @@ apiRouter.post('/sql/configure', authMiddleware, async (req, res) => {
       user: req.body.user,
       password,
       database: req.body.database,
-      options: dbType === 'postgres'
+      readOnly: req.body.readOnly === true,
+      options: dbType === 'postgres' || dbType === 'mysql'
         ? { sslMode: req.body.sslMode || 'disable' }
         : {
             encrypt: req.body.encrypt ?? true,
@@ -165,6 +212,7 @@ apiRouter.post('/sql/configure', authMiddleware, async (req, res) => {
       port: sqlConfig.port,
       user: sqlConfig.user,
       database: sqlConfig.database,
+      readOnly: sqlConfig.readOnly,
       options: sqlConfig.options,
       _encPassword: encPassword,
     });
@@ -197,6 +245,322 @@ apiRouter.post('/sql/test', authMiddleware, async (req, res) => {
   }
 });
 
+// ============== NAMED SQL TARGETS (Protected) ==============
+
+const TARGET_ID_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+apiRouter.get('/sql/targets', authMiddleware, async (req, res) => {
+  try {
+    const saved = await loadJsonFile<Record<string, SavedSqlConfig>>(SQL_TARGETS_PATH, {});
+    const health = new Map(sqlService.getTargetsHealth().map(t => [t.id, t]));
+    // Don't return passwords
+    res.json({
+      targets: Object.entries(saved).map(([id, target]) => ({
+        id,
+        name: target.name || id,
+        dbType: target.dbType || 'mssql',
+        server: target.server || '',
+        port: target.port || getDefaultPort(target.dbType || 'mssql'),
+        user: target.user || '',
+        database: target.database || '',
+        readOnly: target.readOnly ?? false,
+        options: target.options || {},
+        connected: health.get(id)?.connected ?? false,
+      })),
+    });
+  } catch (error) {
+    logger.error('Failed to list SQL targets:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list SQL targets',
+    });
+  }
+});
+
+apiRouter.put('/sql/targets/:id', authMiddleware, async (req, res) => {
+  try {
+    const targetId = req.params.id;
+    if (!TARGET_ID_PATTERN.test(targetId) || targetId === DEFAULT_TARGET_ID) {
+      return res.status(400).json({
+        success: false,
+        error: `Invalid target id - use letters, digits, '-' or '_' (and not '${DEFAULT_TARGET_ID}')`,
+      });
+    }
+
+    const targets = await loadJsonFile<Record<string, SavedSqlConfig>>(SQL_TARGETS_PATH, {});
+    const dbType = (req.body.dbType || 'mssql') as DbType;
+
+    // If no password provided, keep existing saved password
+    const encPassword = req.body.password
+      ? Buffer.from(req.body.password).toString('base64')
+      : targets[targetId]?._encPassword || '';
+
+    const saved: SavedSqlConfig = {
+      name: req.body.name || targetId,
+      dbType,
+      server: req.body.server,
+      port: parseInt(req.body.port, 10) || getDefaultPort(dbType),
+      user: req.body.user,
+      database: req.body.database,
+      readOnly: req.body.readOnly === true,
+      options: dbType === 'postgres' || dbType === 'mysql'
+        ? { sslMode: req.body.sslMode || 'disable' }
+        : {
+            encrypt: req.body.encrypt ?? true,
+            trustServerCertificate: req.body.trustServerCertificate ?? true,
+          },
+      _encPassword: encPassword,
+    };
+
+    await sqlService.configure(toSqlConfig(saved), targetId);
+    targets[targetId] = saved;
+    await saveJsonFile(SQL_TARGETS_PATH, targets);
+
+    logger.info(`SQL target saved: ${targetId} (${dbType})`);
+    wsService?.notifyStatusChange();
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('SQL target configuration failed:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Configuration failed',
+    });
+  }
+});
+
+apiRouter.delete('/sql/targets/:id', authMiddleware, async (req, res) => {
+  try {
+    const targetId = req.params.id;
+    const targets = await loadJsonFile<Record<string, SavedSqlConfig>>(SQL_TARGETS_PATH, {});
+
+    if (!targets[targetId]) {
+      return res.status(404).json({ success: false, error: `Unknown SQL target: ${targetId}` });
+    }
+
+    delete targets[targetId];
+    await saveJsonFile(SQL_TARGETS_PATH, targets);
+    await sqlService.removeTarget(targetId);
+    wsService?.notifyStatusChange();
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('SQL target removal failed:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to remove SQL target',
+    });
+  }
+});
+
+apiRouter.post('/sql/targets/:id/test', authMiddleware, async (req, res) => {
+  const result = await sqlService.testConnection(req.params.id);
+  if (result.success && wsService) {
+    wsService.notifyStatusChange();
+  }
+  res.json(result);
+});
+
+// ============== ALLOWLIST ENDPOINTS ==============
+
+apiRouter.get('/allowlist', authMiddleware, (req, res) => {
+  if (!wsService) {
+    return res.status(503).json({ error: 'WebSocket service not initialized' });
+  }
+  res.json({
+    status: wsService.getAllowlistService().getStatus(),
+    keyring: wsService.getKeyringService().getStatus(),
+  });
+});
+
+apiRouter.get('/allowlist/tools', authMiddleware, (req, res) => {
+  if (!wsService) {
+    return res.status(503).json({ error: 'WebSocket service not initialized' });
+  }
+  res.json({ tools: wsService.getAllowlistService().getApprovedTools() });
+});
+
+apiRouter.get('/allowlist/rejections', authMiddleware, (req, res) => {
+  if (!wsService) {
+    return res.status(503).json({ error: 'WebSocket service not initialized' });
+  }
+  res.json({ rejections: wsService.getAllowlistService().getRejections() });
+});
+
+// ============== DENY-LIST ENDPOINTS (Protected) ==============
+
+apiRouter.get('/deny-list', authMiddleware, (req, res) => {
+  if (!wsService) {
+    return res.status(503).json({ error: 'WebSocket service not initialized' });
+  }
+  res.json({
+    rules: wsService.getDenyListService().getRules(),
+    summary: wsService.getDenyListService().getSummary(),
+  });
+});
+
+apiRouter.post('/deny-list', authMiddleware, async (req, res) => {
+  if (!wsService) {
+    return res.status(503).json({ error: 'WebSocket service not initialized' });
+  }
+
+  try {
+    const { type, value, targetId, reason } = req.body;
+    const rule = await wsService.getDenyListService().addRule({ type, value, targetId, reason });
+    wsService.notifyStatusChange();
+    res.json({ success: true, rule });
+  } catch (error) {
+    if (error instanceof DenyRuleError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    logger.error('Failed to add deny rule:', error);
+    res.status(500).json({ success: false, error: 'Failed to save deny-list' });
+  }
+});
+
+apiRouter.delete('/deny-list/:id', authMiddleware, async (req, res) => {
+  if (!wsService) {
+    return res.status(503).json({ error: 'WebSocket service not initialized' });
+  }
+
+  try {
+    const removed = await wsService.getDenyListService().removeRule(req.params.id);
+    if (!removed) {
+      return res.status(404).json({ success: false, error: `Unknown deny rule: ${req.params.id}` });
+    }
+    wsService.notifyStatusChange();
+    res.json({ success: true });
+  } catch (error) {
+    logger.error('Failed to remove deny rule:', error);
+    res.status(500).json({ success: false, error: 'Failed to save deny-list' });
+  }
+});
+
+// ============== AUDIT ENDPOINTS (Protected) ==============
+
+const AUDIT_ACTIONS: AuditAction[] = ['sql.execute', 'file.read', 'file.list', 'file.search'];
+const AUDIT_VERDICTS: AuditVerdict[] = ['executed', 'rejected', 'denied', 'failed', 'cancelled'];
+const AUDIT_PAGE_SIZE = 50;
+const AUDIT_MAX_PAGE_SIZE = 500;
+
+const AUDIT_CSV_COLUMNS: (keyof AuditEntry)[] = [
+  'seq', 'timestamp', 'action', 'messageId', 'toolId', 'templateHash', 'targetId', 'verdict',
+  'duration', 'rowCount', 'error', 'sql', 'params', 'prevHash', 'hash',
+];
+
+/**
+ * Build an audit filter from query string params (throws with a message for the UI if invalid)
+ */
+function parseAuditFilter(query: Record<string, unknown>): AuditFilter {
+  const str = (value: unknown) => (typeof value === 'string' && value !== '' ? value : undefined);
+  const filter: AuditFilter = {
+    from: str(query.from),
+    to: str(query.to),
+    toolId: str(query.toolId),
+    action: str(query.action) as AuditAction | undefined,
+    verdict: str(query.status) as AuditVerdict | undefined,
+  };
+
+  for (const key of ['from', 'to'] as const) {
+    if (filter[key] && isNaN(new Date(filter[key]!).getTime())) {
+      throw new Error(`Invalid ${key} timestamp: ${filter[key]}`);
+    }
+  }
+  if (filter.action && !AUDIT_ACTIONS.includes(filter.action)) {
+    throw new Error(`Invalid action: ${filter.action}`);
+  }
+  if (filter.verdict && !AUDIT_VERDICTS.includes(filter.verdict)) {
+    throw new Error(`Invalid status: ${filter.verdict}`);
+  }
+  return filter;
+}
+
+function toCsvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+apiRouter.get('/audit', authMiddleware, async (req, res) => {
+  if (!wsService) {
+    return res.status(503).json({ error: 'WebSocket service not initialized' });
+  }
+
+  let filter: AuditFilter;
+  try {
+    filter = parseAuditFilter(req.query);
+  } catch (error) {
+    return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid filter' });
+  }
+
+  const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? AUDIT_PAGE_SIZE), 10) || AUDIT_PAGE_SIZE, 1), AUDIT_MAX_PAGE_SIZE);
+  const offset = Math.max(parseInt(String(req.query.offset ?? 0), 10) || 0, 0);
+
+  try {
+    const page = await wsService.getAuditLogService().query(filter, offset, limit);
+    res.json({
+      entries: page.entries,
+      hasMore: page.hasMore,
+      limit,
+      offset,
+    });
+  } catch (error) {
+    logger.error('Audit log query failed:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Audit query failed' });
+  }
+});
+
+apiRouter.get('/audit/export', authMiddleware, async (req, res) => {
+  if (!wsService) {
+    return res.status(503).json({ error: 'WebSocket service not initialized' });
+  }
+
+  const format = String(req.query.format || 'jsonl');
+  if (format !== 'csv' && format !== 'jsonl') {
+    return res.status(400).json({ error: 'Format must be csv or jsonl' });
+  }
+
+  let filter: AuditFilter;
+  try {
+    filter = parseAuditFilter(req.query);
+  } catch (error) {
+    return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid filter' });
+  }
+
+  // Exports run oldest first, like the log itself, and are streamed entry by entry
+  const entries = wsService.getAuditLogService().entries(filter, 'oldest');
+  async function* lines() {
+    if (format === 'csv') yield AUDIT_CSV_COLUMNS.join(',') + '\r\n';
+    for await (const entry of entries) {
+      yield format === 'csv'
+        ? AUDIT_CSV_COLUMNS.map(column => toCsvField(entry[column])).join(',') + '\r\n'
+        : JSON.stringify(entry) + '\n';
+    }
+  }
+
+  const filename = `audit-${new Date().toISOString().replace(/[:.]/g, '-')}.${format}`;
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.type(format === 'csv' ? 'text/csv' : 'application/x-ndjson');
+
+  try {
+    await pipeline(Readable.from(lines()), res);
+  } catch (error) {
+    // pipeline() has destroyed the response - the download is cut short
+    logger.error('Audit log export failed:', error);
+  }
+});
+
+apiRouter.get('/audit/verify', authMiddleware, async (req, res) => {
+  if (!wsService) {
+    return res.status(503).json({ error: 'WebSocket service not initialized' });
+  }
+
+  try {
+    res.json(await wsService.getAuditLogService().verify());
+  } catch (error) {
+    logger.error('Audit log verification failed:', error);
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Verification failed' });
+  }
+});
+
 // ============== AUTH ENDPOINTS ==============
 
 // Session tokens storage (in-memory)
@@ -409,31 +773,12 @@ apiRouter.post('/storage/:key', authMiddleware, async (req, res) => {
 
 export async function loadSavedSqlConfig(): Promise<void> {
   try {
-    const saved = await loadJsonFile<{
-      dbType?: string;
-      server?: string;
-      port?: number;
-      user?: string;
-      database?: string;
-      options?: { encrypt?: boolean; trustServerCertificate?: boolean; sslMode?: string };
-      _encPassword?: string;
-    }>(SQL_CONFIG_PATH, {});
+    const saved = await loadJsonFile<SavedSqlConfig>(SQL_CONFIG_PATH, {});
 
     if (saved.server && saved.user && saved._encPassword) {
-      const dbType = (saved.dbType || 'mssql') as DbType;
-      const defaultPort = dbType === 'postgres' ? 5432 : 1433;
-
-      const sqlConfig: SqlConfig = {
-        dbType,
-        server: saved.server,
-        port: saved.port || defaultPort,
-        user: saved.user,
-        password: Buffer.from(saved._encPassword, 'base64').toString('utf-8'),
-        database: saved.database,
-        options: saved.options as SqlConfig['options'],
-      };
+      const sqlConfig = toSqlConfig(saved);
       await sqlService.configure(sqlConfig);
-      logger.info(`Loaded saved SQL configuration (${dbType})`);
+      logger.info(`Loaded saved SQL configuration (${sqlConfig.dbType})`);
 
       // Test connection to validate config and set connected state
       const testResult = await sqlService.testConnection();
@@ -450,4 +795,27 @@ export async function loadSavedSqlConfig(): Promise<void> {
   } catch (error) {
     logger.warn('Could not load saved SQL config:', error);
   }
+
+  await loadSavedSqlTargets();
+}
+
+/**
+ * Load named SQL targets (sql-targets.json). Connections are opened lazily
+ * on first use so one unreachable instance doesn't delay startup.
+ */
+async function loadSavedSqlTargets(): Promise<void> {
+  const targets = await loadJsonFile<Record<string, SavedSqlConfig>>(SQL_TARGETS_PATH, {});
+
+  for (const [targetId, saved] of Object.entries(targets)) {
+    try {
+      await sqlService.configure(toSqlConfig(saved), targetId);
+    } catch (error) {
+      logger.warn(`Could not load SQL target ${targetId}:`, error);
+    }
+  }
+
+  const count = Object.keys(targets).length;
+  if (count > 0) {
+    logger.info(`Loaded ${count} named SQL target(s)`);
+  }
 }
@@ -0,0 +1,25 @@
+/**
+ * Check the audit log hash chain from the command line.
+ *
+ *   npm run audit:verify            (config/audit/audit.jsonl)
+ *   npm run audit:verify -- <path>  (any active log file)
+ *
+ * Exits with status 1 if the chain is broken.
+ */
+import path from 'path';
+import { config } from './config.js';
+import { AuditLogService } from './services/audit-log.service.js';
+
+const logPath = process.argv[2] || path.join(process.cwd(), 'config', 'audit', 'audit.jsonl');
+const auditLog = new AuditLogService(path.resolve(logPath), { maxFiles: config.auditLogMaxFiles });
+
+const result = await auditLog.verify();
+
+if (result.valid) {
+  console.log(`Audit log OK: ${result.entries} entries in ${result.files} file(s)` +
+    (result.entries > 0 ? ` (seq ${result.firstSeq}-${result.lastSeq})` : ''));
+} else {
+  console.error(`Audit log BROKEN at ${result.error?.file}:${result.error?.line} - ${result.error?.reason}`);
+  console.error(`${result.entries} entries verified before the break`);
+  process.exit(1);
+}
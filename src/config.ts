@@ -97,8 +97,24 @@ function resolveProjectPath(): string {
   return configPath;
 }
 
+/**
+ * Integer setting from the environment. Missing, malformed or out-of-range
+ * values fall back to the default - NaN would silently turn a limit off.
+ */
+function envInt(name: string, fallback: number, min = 1): number {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+
+  const value = parseInt(raw, 10);
+  if (!Number.isFinite(value) || value < min) {
+    console.warn(`Invalid ${name}=${raw} (expected an integer >= ${min}) - using ${fallback}`);
+    return fallback;
+  }
+  return value;
+}
+
 export const config: AppConfig = {
-  port: parseInt(process.env.PORT || '3000', 10),
+  port: envInt('PORT', 3000),
   projectPath: resolveProjectPath(),
   configPath: CONFIG_PATH,
 
@@ -121,6 +137,40 @@ export const config: AppConfig = {
   // Auth required flag (received from server, persisted locally)
   authRequired: authConfig.authRequired ?? false,
 
+  // Streaming result limits
+  sqlChunkRows: envInt('SQL_CHUNK_ROWS', 500),
+  sqlMaxRows: envInt('SQL_MAX_ROWS', 100000, 0),
+  sqlMaxBytes: envInt('SQL_MAX_BYTES', 64 * 1024 * 1024, 0),
+
+  // Legacy query policy - anything but 'unrestricted' only allows read/metadata statements
+  legacyQueryPolicy: process.env.LEGACY_QUERY_POLICY === 'unrestricted' ? 'unrestricted' : 'read-only',
+
+  // Catalog replay protection
+  catalogClockSkew: envInt('CATALOG_CLOCK_SKEW', 300, 0),
+
+  // Concurrency limits - requests beyond maxConcurrent wait in a FIFO queue
+  sqlMaxConcurrent: envInt('SQL_MAX_CONCURRENT', 4),
+  sqlMaxQueue: envInt('SQL_MAX_QUEUE', 20, 0),
+  fileMaxConcurrent: envInt('FILE_MAX_CONCURRENT', 8),
+  fileMaxQueue: envInt('FILE_MAX_QUEUE', 50, 0),
+
+  // SQL target back-pressure (breaker opens after N consecutive connection failures/timeouts)
+  sqlBreakerFailures: envInt('SQL_BREAKER_FAILURES', 5),
+  sqlBreakerResetSeconds: envInt('SQL_BREAKER_RESET_SECONDS', 30),
+  sqlQueriesPerMinute: envInt('SQL_QUERIES_PER_MINUTE', 600, 0),
+
+  // Session resume - responses that could not be delivered are replayed within this window
+  wsResumeWindowSeconds: envInt('WS_RESUME_WINDOW_SECONDS', 120, 0),
+
+  // Large messages: permessage-deflate and (when the server picks it) MessagePack binary frames
+  wsCompression: process.env.WS_COMPRESSION !== 'false',
+  wsMsgpack: process.env.WS_MSGPACK !== 'false',
+  wsCompressionThreshold: envInt('WS_COMPRESSION_THRESHOLD', 1024, 0),
+
+  // Audit log rotation
+  auditLogMaxBytes: envInt('AUDIT_LOG_MAX_BYTES', 10 * 1024 * 1024),
+  auditLogMaxFiles: envInt('AUDIT_LOG_MAX_FILES', 10, 0),
+
   // Runtime state
   // Configured means we have serverUrl AND valid authentication (secret or certificate)
   isConfigured: !!initConfig?.serverUrl && authMode !== 'none',
@@ -36,7 +36,11 @@ app.get('*', (req, res) => {
 });
 
 // Initialize services
-const sqlService = new SqlService();
+const sqlService = new SqlService({
+  breakerFailures: config.sqlBreakerFailures,
+  breakerResetMs: config.sqlBreakerResetSeconds * 1000,
+  queriesPerMinute: config.sqlQueriesPerMinute,
+});
 const fileService = new FileService(config.projectPath);
 
 // WebSocket service with connection status callback
@@ -51,6 +55,9 @@ async function start() {
   // Load saved SQL configuration
   await loadSavedSqlConfig();
 
+  // Serve approved templates immediately, before the server re-syncs
+  await wsService.restoreState();
+
   app.listen(config.port, () => {
     logger.info(`AISQLAGENT running on port ${config.port}`);
     logger.info(`UI available at http://localhost:${config.port}`);
@@ -0,0 +1,68 @@
+import fs from 'fs';
+import { AppConfig, AgentCapabilities } from './types/index.js';
+import { MAX_FILE_SIZE } from './services/file.service.js';
+
+/**
+ * Wire protocol spoken with the server.
+ *   1 - request/response actions, heartbeat, catalog sync
+ *   2 - streamed results, sql.cancel, typed params, session resume
+ *   3 - MessagePack binary frames (chosen by the server at registration)
+ */
+export const PROTOCOL_VERSION = 3;
+
+// Oldest server protocol this agent still works with (degraded)
+export const MIN_PROTOCOL_VERSION = 1;
+
+// Protocol version a server must speak for the agent to use a feature
+export const PROTOCOL_FEATURES = {
+  'session.resume': 2,
+  'encoding.msgpack': 3,
+} as const;
+
+export type ProtocolFeature = keyof typeof PROTOCOL_FEATURES;
+
+/**
+ * Agent build version (from package.json, which sits one level above src/ and dist/)
+ */
+export const AGENT_VERSION: string = (() => {
+  try {
+    const pkg = JSON.parse(fs.readFileSync(new URL('../package.json', import.meta.url), 'utf-8')) as { version?: string };
+    return pkg.version ?? 'unknown';
+  } catch {
+    return 'unknown';
+  }
+})();
+
+/**
+ * What this build supports, advertised in probe.register
+ */
+export function buildCapabilities(config: AppConfig): AgentCapabilities {
+  return {
+    dbTypes: ['mssql', 'postgres', 'mysql'],
+    actions: [
+      'sql.execute', 'sql.cancel', 'sql.testConnection',
+      'file.read', 'file.list', 'file.search', 'file.getStructure',
+    ],
+    features: [
+      'sql.stream', 'sql.cancel', 'sql.typedParams', 'sql.multipleResultSets', 'sql.columnMetadata',
+      'catalog.schemas', 'catalog.keyring', 'session.resume',
+    ],
+    encodings: config.wsMsgpack ? ['json', 'msgpack'] : ['json'],
+    compression: {
+      permessageDeflate: config.wsCompression,
+      threshold: config.wsCompressionThreshold,
+    },
+    files: {
+      enabled: !!config.projectPath,
+      maxFileSize: MAX_FILE_SIZE,
+    },
+    limits: {
+      sqlChunkRows: config.sqlChunkRows,
+      sqlMaxRows: config.sqlMaxRows,
+      sqlMaxBytes: config.sqlMaxBytes,
+      sqlMaxConcurrent: config.sqlMaxConcurrent,
+      fileMaxConcurrent: config.fileMaxConcurrent,
+      sqlQueriesPerMinute: config.sqlQueriesPerMinute > 0 ? config.sqlQueriesPerMinute : null,
+    },
+  };
+}
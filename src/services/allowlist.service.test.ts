@@ -0,0 +1,196 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AllowlistService, AllowlistValidationError } from './allowlist.service.js';
+import { KeyringService } from './keyring.service.js';
+import { canonicalJson } from '../utils/canonical-json.js';
+import { logger } from '../utils/logger.js';
+import { QueryCatalog, SqlParamValue } from '../types/index.js';
+
+const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+const rootKey = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * A catalog signed by the root key, valid for the next hour unless overridden
+ */
+function signedCatalog(fields: Partial<Omit<QueryCatalog, 'signature'>> = {}): QueryCatalog {
+  const content: Omit<QueryCatalog, 'signature'> = {
+    version: 1,
+    generated_at: new Date().toISOString(),
+    expires_at: new Date(Date.now() + HOUR).toISOString(),
+    queries: {},
+    ...fields,
+  };
+  const signature = crypto.sign('SHA256', Buffer.from(canonicalJson(content)), privateKey).toString('base64');
+  return { ...content, signature };
+}
+
+/**
+ * Expect fn to throw an AllowlistValidationError with the given code
+ */
+function expectCode(fn: () => unknown, code: AllowlistValidationError['code']): void {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(AllowlistValidationError);
+    expect((error as AllowlistValidationError).code).toBe(code);
+    return;
+  }
+  expect.fail(`Expected ${code}`);
+}
+
+describe('AllowlistService.validateParams', () => {
+  let allowlist: AllowlistService;
+
+  beforeEach(() => {
+    allowlist = new AllowlistService(new KeyringService(rootKey));
+    allowlist.updateCatalog(signedCatalog({
+      queries: { orders: 'sha256:1', legacy: 'sha256:2' },
+      schemas: {
+        orders: {
+          customer: { kind: 'uuid' },
+          limit: { kind: 'int', min: 1, max: 100 },
+          ratio: { kind: 'number', required: false, min: 0, max: 1 },
+          status: { kind: 'string', enum: ['open', 'closed'], required: false },
+          code: { kind: 'string', pattern: '[A-Z]{3}', max_length: 3, required: false },
+          active: { kind: 'bool', required: false },
+          since: { kind: 'date', required: false },
+          sortColumn: { kind: 'ident', required: false },
+        },
+      },
+    }));
+  });
+
+  const valid = { customer: '6f1c2b1e-8d6a-4c3e-9a4b-2f1d0c9e8b7a', limit: 10 };
+  const validate = (params: Record<string, SqlParamValue>) => allowlist.validateParams('orders', params);
+
+  it('accepts params that match the schema and fills in missing optional ones', () => {
+    expect(validate({ ...valid, status: 'open', active: 'true', since: '2024-02-29' })).toEqual({
+      ...valid,
+      ratio: null,
+      status: 'open',
+      code: null,
+      active: 'true',
+      since: '2024-02-29',
+      sortColumn: null,
+    });
+  });
+
+  it.each<[string, Record<string, SqlParamValue>]>([
+    ['a missing required param', { limit: 10 }],
+    ['a null required param', { ...valid, customer: null }],
+    ['a malformed uuid', { ...valid, customer: 'not-a-uuid' }],
+    ['a non-integer int', { ...valid, limit: 1.5 }],
+    ['a value below min', { ...valid, limit: 0 }],
+    ['a value above max', { ...valid, limit: '101' }],
+    ['a number out of range', { ...valid, ratio: 1.5 }],
+    ['a value outside the enum', { ...valid, status: 'deleted' }],
+    ['a value that does not match the pattern', { ...valid, code: 'ab1' }],
+    ['a value over max_length', { ...valid, code: 'ABCD' }],
+    ['an invalid bool', { ...valid, active: 'yes' }],
+    ['an impossible date', { ...valid, since: '2023-02-30x' }],
+    ['a non-string identifier', { ...valid, sortColumn: 1 }],
+    ['a param outside the schema', { ...valid, extra: 1 }],
+  ])('rejects %s', (_case, params) => {
+    expectCode(() => validate(params), 'PARAM_INVALID');
+  });
+
+  it.each(['constructor', 'toString', 'hasOwnProperty', '__proto__'])(
+    'rejects a param named %s that only exists on Object.prototype',
+    name => {
+      const params = JSON.parse(`{"customer": "${valid.customer}", "limit": 10, "${name}": "x"}`) as Record<string, SqlParamValue>;
+      expectCode(() => validate(params), 'PARAM_INVALID');
+    }
+  );
+
+  it('leaves tools without a schema to the template placeholders', () => {
+    expect(allowlist.validateParams('legacy', { anything: 1 })).toEqual({ anything: 1 });
+    expect(allowlist.validateParams('constructor', { anything: 1 })).toEqual({ anything: 1 });
+  });
+});
+
+describe('AllowlistService.updateCatalog', () => {
+  let allowlist: AllowlistService;
+  const ago = (ms: number) => new Date(Date.now() - ms).toISOString();
+
+  beforeEach(() => {
+    allowlist = new AllowlistService(new KeyringService(rootKey), { clockSkewSeconds: 60 });
+    allowlist.updateCatalog(signedCatalog({ version: 5, queries: { orders: 'sha256:1' } }));
+  });
+
+  it('accepts a newer catalog, or the same version again', () => {
+    allowlist.updateCatalog(signedCatalog({ version: 5 }));
+    allowlist.updateCatalog(signedCatalog({ version: 6 }));
+    expect(allowlist.hasCatalog()).toBe(true);
+  });
+
+  it('rejects a tampered catalog', () => {
+    const catalog = signedCatalog({ version: 6 });
+    expectCode(() => allowlist.updateCatalog({ ...catalog, queries: { evil: 'sha256:2' } }), 'SIGNATURE_INVALID');
+  });
+
+  it('rejects a replay of an older version', () => {
+    expectCode(() => allowlist.updateCatalog(signedCatalog({ version: 4 })), 'CATALOG_REPLAY');
+  });
+
+  it('rejects a catalog generated in the future beyond the clock skew', () => {
+    expectCode(
+      () => allowlist.updateCatalog(signedCatalog({ version: 6, generated_at: ago(-2 * 60 * 1000) })),
+      'CATALOG_REPLAY'
+    );
+    allowlist.updateCatalog(signedCatalog({ version: 6, generated_at: ago(-30 * 1000) }));
+  });
+
+  it('rejects a catalog that expires before it was generated', () => {
+    expectCode(
+      () => allowlist.updateCatalog(signedCatalog({ version: 6, generated_at: ago(0), expires_at: ago(1000) })),
+      'CATALOG_REPLAY'
+    );
+  });
+
+  it('rejects an already expired catalog and keeps the current one', () => {
+    expectCode(
+      () => allowlist.updateCatalog(signedCatalog({ version: 6, generated_at: ago(2 * HOUR), expires_at: ago(HOUR) })),
+      'CATALOG_EXPIRED'
+    );
+    expect(allowlist.isCatalogExpired()).toBe(false);
+    expect(allowlist.getApprovedTools().map(tool => tool.toolId)).toEqual(['orders']);
+  });
+
+  it('tolerates an expiry within the clock skew', () => {
+    allowlist.updateCatalog(signedCatalog({ version: 6, generated_at: ago(HOUR), expires_at: ago(30 * 1000) }));
+  });
+});
+
+describe('AllowlistService persistence', () => {
+  it('writes overlapping updates in order and restores the latest catalog', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'allowlist-'));
+    const options = { catalogPath: path.join(dir, 'catalog.json'), statePath: path.join(dir, 'state.json') };
+    const allowlist = new AllowlistService(new KeyringService(rootKey), options);
+    const warn = vi.spyOn(logger, 'warn');
+
+    for (let version = 1; version <= 5; version++) {
+      allowlist.updateCatalog(signedCatalog({ version, queries: { [`tool${version}`]: 'sha256:1' } }));
+    }
+
+    await vi.waitFor(async () => {
+      const state = JSON.parse(await fs.readFile(options.statePath, 'utf-8'));
+      const catalog = JSON.parse(await fs.readFile(options.catalogPath, 'utf-8'));
+      expect([state.highWaterMark, catalog.version]).toEqual([5, 5]);
+    });
+
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+
+    const restored = new AllowlistService(new KeyringService(rootKey), options);
+    expect(await restored.loadPersistedCatalog()).toBe(true);
+    expect(restored.getApprovedTools().map(tool => tool.toolId)).toEqual(['tool5']);
+    expectCode(() => restored.updateCatalog(signedCatalog({ version: 4 })), 'CATALOG_REPLAY');
+
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
@@ -6,14 +6,25 @@
  *
  * Security flow:
  * 1. Server sends signed catalog after WebSocket connection
- * 2. Service verifies signature using CA certificate
- * 3. On sql.execute: hash template, verify against catalog
- * 4. If valid: substitute params and return final query
+ * 2. Service verifies signature with the catalog's key from the trusted keyring
+ * 3. On sql.execute: hash template, verify against catalog and the requested toolId
+ * 4. If valid: check params against the tool's signed schema, bind params (identifiers quoted, values as bound parameters)
  * 5. If invalid: throw error, block execution
+ *
+ * The last verified catalog is persisted to the config volume and restored
+ * (signature re-verified, expiry honoured) on startup, so approved templates
+ * work before the server re-syncs.
  */
 import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
 import { logger } from '../utils/logger.js';
-import { QueryCatalog } from '../types/messages.js';
+import { QueryCatalog, SqlParamValue, CatalogParamSpec } from '../types/messages.js';
+import { DbType } from '../types/config.js';
+import { BoundQuery } from './drivers/db-driver.interface.js';
+import { bindParams, coerceParamValue, ParamBindingError } from './drivers/param-binder.js';
+import { KeyringService, ROOT_KEY_ID } from './keyring.service.js';
+import { canonicalJson } from '../utils/canonical-json.js';
 
 /**
  * Error thrown when catalog validation fails
@@ -21,33 +32,81 @@ import { QueryCatalog } from '../types/messages.js';
 export class AllowlistValidationError extends Error {
   constructor(
     message: string,
-    public code: 'SIGNATURE_INVALID' | 'TEMPLATE_NOT_ALLOWED' | 'CATALOG_MISSING' | 'CATALOG_EXPIRED'
+    public code:
+      | 'SIGNATURE_INVALID'
+      | 'TEMPLATE_NOT_ALLOWED'
+      | 'TOOL_MISMATCH'
+      | 'CATALOG_MISSING'
+      | 'CATALOG_EXPIRED'
+      | 'CATALOG_REPLAY'
+      | 'PARAM_INVALID'
   ) {
     super(message);
     this.name = 'AllowlistValidationError';
   }
 }
 
+export interface AllowlistOptions {
+  catalogPath?: string;         // Last verified catalog, restored on startup
+  statePath?: string;           // Catalog version high-water mark
+  clockSkewSeconds?: number;    // Tolerance for generated_at ahead of the local clock
+}
+
+// Default tolerance when no clock skew is configured
+const DEFAULT_CLOCK_SKEW_SECONDS = 300;
+
+// Entries kept in the rolling log of rejected templates
+const MAX_REJECTIONS = 100;
+
+/**
+ * A sql.execute template the agent refused to run
+ */
+export interface TemplateRejection {
+  timestamp: string;
+  hash: string;
+  toolId: string | null;
+  code: AllowlistValidationError['code'];
+  reason: string;
+}
+
 /**
  * Service for validating SQL queries against a signed catalog.
  */
 export class AllowlistService {
-  private caCertificate: string;
+  private keyring: KeyringService;
   private catalog: QueryCatalog | null = null;
-  private templateHashMap: Map<string, string> = new Map();  // hash → toolId
+  private templateHashMap: Map<string, Set<string>> = new Map();  // hash → toolIds
   private expiresAt: Date | null = null;
   private refreshInterval: NodeJS.Timeout | null = null;
+  private catalogPath: string | null;
+  private statePath: string | null;
+  private clockSkewMs: number;
+  // Highest catalog version ever accepted - older catalogs are replays
+  private highWaterMark = 0;
+  private lastSyncAt: Date | null = null;       // Last catalog accepted from the server
+  private lastVerifiedAt: Date | null = null;   // Last successful signature verification
+  private rejections: TemplateRejection[] = [];
+  // Catalog and state writes run one at a time - overlapping writes would
+  // share a temp file and could rename it half-written
+  private writes: Promise<void> = Promise.resolve();
 
-  constructor(caCertificate: string) {
-    this.caCertificate = caCertificate;
+  /**
+   * @param keyring - Trusted signing keys used to verify catalog signatures
+   * @param options - Persistence paths (persistence is off without them) and clock skew
+   */
+  constructor(keyring: KeyringService, options: AllowlistOptions = {}) {
+    this.keyring = keyring;
+    this.catalogPath = options.catalogPath ?? null;
+    this.statePath = options.statePath ?? null;
+    this.clockSkewMs = (options.clockSkewSeconds ?? DEFAULT_CLOCK_SKEW_SECONDS) * 1000;
   }
 
   /**
    * Update catalog from server (called on allowlist.sync event)
-   * Validates signature before accepting.
+   * Validates signature and freshness before accepting.
    */
   updateCatalog(catalog: QueryCatalog): void {
-    // 1. Verify signature using CA public key
+    // 1. Verify signature with the catalog's signing key
     if (!this.verifySignature(catalog)) {
       throw new AllowlistValidationError(
         'Catalog signature verification failed - possible tampering',
@@ -55,17 +114,179 @@ export class AllowlistService {
       );
     }
 
-    // 2. Store catalog and build hash lookup
+    // 2. Reject replays of older catalogs and implausible timestamps
+    this.checkFreshness(catalog);
+
+    // 3. Store catalog and build hash lookup
+    this.applyCatalog(catalog);
+
+    this.lastSyncAt = new Date();
+
+    // 4. Persist for the next startup (failure only costs the restore)
+    this.persistCatalog(catalog).catch(error => {
+      logger.warn('Failed to persist query catalog:', error);
+    });
+  }
+
+  /**
+   * Throw CATALOG_REPLAY if the catalog is older than the high-water mark or
+   * its generated_at is ahead of the local clock (beyond the allowed skew),
+   * and CATALOG_EXPIRED if its expires_at has already passed
+   */
+  private checkFreshness(catalog: QueryCatalog): void {
+    if (catalog.version < this.highWaterMark) {
+      logger.warn(`Catalog REJECTED - version ${catalog.version} is older than accepted version ${this.highWaterMark}`);
+      throw new AllowlistValidationError(
+        `Catalog version ${catalog.version} is older than the accepted version ${this.highWaterMark}`,
+        'CATALOG_REPLAY'
+      );
+    }
+
+    const generatedAt = new Date(catalog.generated_at).getTime();
+    if (Number.isNaN(generatedAt) || generatedAt > Date.now() + this.clockSkewMs) {
+      logger.warn(`Catalog REJECTED - generated_at ${catalog.generated_at} is in the future`);
+      throw new AllowlistValidationError(
+        `Catalog generated_at ${catalog.generated_at} is outside the allowed clock skew`,
+        'CATALOG_REPLAY'
+      );
+    }
+
+    const expiresAt = new Date(catalog.expires_at).getTime();
+    if (generatedAt > expiresAt) {
+      throw new AllowlistValidationError(
+        'Catalog expires_at is before its generated_at',
+        'CATALOG_REPLAY'
+      );
+    }
+
+    // Accepting it would replace the current catalog with one that can't run anything
+    if (Number.isNaN(expiresAt) || expiresAt <= Date.now() - this.clockSkewMs) {
+      logger.warn(`Catalog REJECTED - expired at ${catalog.expires_at}`);
+      throw new AllowlistValidationError(
+        `Catalog expired at ${catalog.expires_at}`,
+        'CATALOG_EXPIRED'
+      );
+    }
+  }
+
+  /**
+   * Restore the persisted catalog on startup.
+   * The signature is verified again and an expired catalog is ignored.
+   * Returns true if a catalog was loaded.
+   */
+  async loadPersistedCatalog(): Promise<boolean> {
+    await this.loadState();
+    if (!this.catalogPath) return false;
+
+    let catalog: QueryCatalog;
+    try {
+      catalog = JSON.parse(await fs.readFile(this.catalogPath, 'utf-8')) as QueryCatalog;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn('Failed to read persisted query catalog:', error);
+      }
+      return false;
+    }
+
+    if (!this.verifySignature(catalog)) {
+      logger.error('Persisted query catalog failed signature verification - ignoring it');
+      return false;
+    }
+
+    if (new Date() > new Date(catalog.expires_at)) {
+      logger.info(`Persisted query catalog expired at ${catalog.expires_at} - waiting for server sync`);
+      return false;
+    }
+
+    try {
+      this.checkFreshness(catalog);
+    } catch (error) {
+      logger.error(`Persisted query catalog rejected: ${error instanceof Error ? error.message : error}`);
+      return false;
+    }
+
+    this.applyCatalog(catalog);
+    logger.info('Query catalog restored from disk');
+    return true;
+  }
+
+  /**
+   * Write the catalog atomically (temp file + rename)
+   */
+  private persistCatalog(catalog: QueryCatalog): Promise<void> {
+    const catalogPath = this.catalogPath;
+    if (!catalogPath) return Promise.resolve();
+
+    return this.serializeWrite(async () => {
+      await this.writeAtomically(catalogPath, JSON.stringify(catalog, null, 2));
+      logger.debug('Query catalog persisted to file');
+    });
+  }
+
+  private async loadState(): Promise<void> {
+    if (!this.statePath) return;
+
+    try {
+      const state = JSON.parse(await fs.readFile(this.statePath, 'utf-8')) as { highWaterMark?: number };
+      this.highWaterMark = state.highWaterMark ?? 0;
+      logger.debug(`Catalog version high-water mark: ${this.highWaterMark}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn('Failed to read catalog state:', error);
+      }
+    }
+  }
+
+  private persistState(): Promise<void> {
+    const statePath = this.statePath;
+    if (!statePath) return Promise.resolve();
+
+    // The mark is read when the write runs, so a queued write stores the latest value
+    return this.serializeWrite(() =>
+      this.writeAtomically(statePath, JSON.stringify({ highWaterMark: this.highWaterMark }, null, 2))
+    );
+  }
+
+  /**
+   * Run a write after the ones already queued (a failed write doesn't block the next)
+   */
+  private serializeWrite(write: () => Promise<void>): Promise<void> {
+    const result = this.writes.then(write);
+    this.writes = result.catch(() => {});
+    return result;
+  }
+
+  private async writeAtomically(filePath: string, content: string): Promise<void> {
+    const tempPath = `${filePath}.tmp`;
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(tempPath, content);
+    await fs.rename(tempPath, filePath);
+  }
+
+  /**
+   * Store a verified catalog and build the hash lookup
+   */
+  private applyCatalog(catalog: QueryCatalog): void {
+    if (catalog.version > this.highWaterMark) {
+      this.highWaterMark = catalog.version;
+      this.persistState().catch(error => {
+        logger.warn('Failed to persist catalog version high-water mark:', error);
+      });
+    }
+
     this.catalog = catalog;
     this.expiresAt = new Date(catalog.expires_at);
 
-    // Build reverse lookup: hash → toolId
+    // Build reverse lookup: hash → toolIds (tools may share a template)
     this.templateHashMap.clear();
     for (const [toolId, hash] of Object.entries(catalog.queries)) {
-      this.templateHashMap.set(hash, toolId);
+      const toolIds = this.templateHashMap.get(hash) ?? new Set<string>();
+      toolIds.add(toolId);
+      this.templateHashMap.set(hash, toolIds);
     }
 
-    logger.info(`Query catalog loaded: ${this.templateHashMap.size} queries, expires: ${catalog.expires_at}`);
+    const schemaCount = Object.keys(catalog.schemas ?? {}).length;
+    logger.info(`Query catalog loaded: ${Object.keys(catalog.queries).length} queries, ${schemaCount} param schemas, expires: ${catalog.expires_at}`);
   }
 
   /**
@@ -94,11 +315,14 @@ export class AllowlistService {
 
   /**
    * Validate a SQL template against the catalog.
-   * Throws AllowlistValidationError if not in catalog.
+   * Throws AllowlistValidationError if not in catalog, or if the template
+   * is approved for a different tool than the one requested.
    *
    * @param template - SQL template with {{placeholders}}
+   * @param toolId - Tool the server claims to be running
+   * @returns The approved toolId
    */
-  validateTemplate(template: string): void {
+  validateTemplate(template: string, toolId: string | undefined): string {
     if (!this.hasCatalog()) {
       throw new AllowlistValidationError(
         'Query catalog not yet received from server',
@@ -124,8 +348,103 @@ export class AllowlistService {
       );
     }
 
-    const toolId = this.templateHashMap.get(hash);
+    if (!toolId || !this.templateHashMap.get(hash)!.has(toolId)) {
+      logger.warn(`Template REJECTED - hash ${hash.substring(0, 20)}... is not approved for tool ${toolId ?? '(none)'}`);
+      throw new AllowlistValidationError(
+        `Template is not approved for tool ${toolId ?? '(none)'}`,
+        'TOOL_MISMATCH'
+      );
+    }
+
     logger.debug(`Template approved: ${toolId} (hash: ${hash.substring(0, 20)}...)`);
+    return toolId;
+  }
+
+  /**
+   * Check params against the tool's signed schema. Tools without a schema
+   * (older catalogs) are only checked by the template's own placeholders.
+   * Returns the params with missing optional values set to null.
+   */
+  validateParams(toolId: string, params: Record<string, SqlParamValue>): Record<string, SqlParamValue> {
+    const schema = this.schemaFor(toolId);
+    if (!schema) {
+      return params;
+    }
+
+    for (const name of Object.keys(params)) {
+      if (!Object.hasOwn(schema, name)) {
+        throw new AllowlistValidationError(`Parameter ${name} is not in the schema of tool ${toolId}`, 'PARAM_INVALID');
+      }
+    }
+
+    const validated: Record<string, SqlParamValue> = {};
+    for (const [name, spec] of Object.entries(schema)) {
+      const value = params[name];
+      if (value === undefined || value === null) {
+        if (spec.required !== false) {
+          throw new AllowlistValidationError(`Missing required parameter: ${name}`, 'PARAM_INVALID');
+        }
+        validated[name] = null;
+        continue;
+      }
+
+      this.checkParamSpec(name, spec, value);
+      validated[name] = value;
+    }
+
+    return validated;
+  }
+
+  /**
+   * Signed schema of a tool. Own properties only - a tool or param named
+   * 'constructor' must not resolve to Object.prototype.
+   */
+  private schemaFor(toolId: string): Record<string, CatalogParamSpec> | undefined {
+    const schemas = this.catalog?.schemas;
+    return schemas && Object.hasOwn(schemas, toolId) ? schemas[toolId] : undefined;
+  }
+
+  /**
+   * Check one value against its kind and constraints
+   */
+  private checkParamSpec(name: string, spec: CatalogParamSpec, value: string | number | boolean): void {
+    const fail = (reason: string) => new AllowlistValidationError(`Parameter ${name} ${reason}`, 'PARAM_INVALID');
+
+    let coerced: string | number | boolean | null;
+    if (spec.kind === 'ident') {
+      if (typeof value !== 'string') throw fail('must be an identifier string');
+      coerced = value;
+    } else {
+      try {
+        coerced = coerceParamValue(name, spec.kind, value);
+      } catch (error) {
+        if (error instanceof ParamBindingError) throw fail(`is not a valid ${spec.kind}`);
+        throw error;
+      }
+    }
+
+    if (typeof coerced === 'number') {
+      if (spec.min !== undefined && coerced < spec.min) throw fail(`is below the minimum of ${spec.min}`);
+      if (spec.max !== undefined && coerced > spec.max) throw fail(`is above the maximum of ${spec.max}`);
+    }
+
+    if (typeof coerced === 'string' && spec.max_length !== undefined && coerced.length > spec.max_length) {
+      throw fail(`exceeds the maximum length of ${spec.max_length}`);
+    }
+
+    if (spec.enum && !spec.enum.some(allowed => String(allowed) === String(coerced))) {
+      throw fail('is not one of the allowed values');
+    }
+
+    if (spec.pattern !== undefined) {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(`^(?:${spec.pattern})$`, 'u');
+      } catch {
+        throw fail('has an invalid pattern in the catalog schema');
+      }
+      if (!pattern.test(String(coerced))) throw fail('does not match the allowed pattern');
+    }
   }
 
   /**
@@ -151,101 +470,63 @@ export class AllowlistService {
    * Hash a SQL template using SHA-256.
    * Returns "sha256:hexdigest" format (matching server).
    */
-  private hashTemplate(template: string): string {
+  hashTemplate(template: string): string {
     const normalized = this.normalizeTemplate(template);
     const hash = crypto.createHash('sha256').update(normalized, 'utf-8').digest('hex');
     return `sha256:${hash}`;
   }
 
   /**
-   * Recursively sort object keys to match Python's json.dumps(sort_keys=True).
-   * This ensures JSON serialization matches exactly between Python and JS.
-   */
-  private sortObjectKeys(obj: unknown): unknown {
-    if (obj === null || typeof obj !== 'object') {
-      return obj;
-    }
-    if (Array.isArray(obj)) {
-      return obj.map(item => this.sortObjectKeys(item));
-    }
-    const sorted: Record<string, unknown> = {};
-    const keys = Object.keys(obj as Record<string, unknown>).sort();
-    for (const key of keys) {
-      sorted[key] = this.sortObjectKeys((obj as Record<string, unknown>)[key]);
-    }
-    return sorted;
-  }
-
-  /**
-   * Verify catalog signature using CA certificate.
-   * The signature covers: version, generated_at, expires_at, queries (sorted JSON).
+   * Verify catalog signature with its signing key from the keyring
+   * (the root CA certificate when the catalog has no key_id).
+   * The signature covers: version, generated_at, expires_at, queries, schemas, key_id (sorted JSON).
    */
   private verifySignature(catalog: QueryCatalog): boolean {
-    if (!this.caCertificate) {
-      logger.error('CA certificate not available for signature verification');
-      return false;
-    }
-
-    try {
-      // Recreate content that was signed (must match server exactly!)
-      // Server uses: json.dumps(document, sort_keys=True, separators=(',', ':'))
-      // We must recursively sort all keys to match Python's behavior
-      const documentToVerify = this.sortObjectKeys({
-        expires_at: catalog.expires_at,
-        generated_at: catalog.generated_at,
-        queries: catalog.queries,
-        version: catalog.version,
-      });
-      const contentToVerify = JSON.stringify(documentToVerify);
-
-      const signature = Buffer.from(catalog.signature, 'base64');
+    // Recreate content that was signed (must match server exactly!)
+    // Optional fields are signed only when present, so older catalogs still verify
+    const contentToVerify = canonicalJson({
+      expires_at: catalog.expires_at,
+      generated_at: catalog.generated_at,
+      queries: catalog.queries,
+      ...(catalog.schemas !== undefined ? { schemas: catalog.schemas } : {}),
+      ...(catalog.key_id !== undefined ? { key_id: catalog.key_id } : {}),
+      version: catalog.version,
+    });
 
-      const verifier = crypto.createVerify('SHA256');
-      verifier.update(contentToVerify);
+    const isValid = this.keyring.verify(contentToVerify, catalog.signature, catalog.key_id);
 
-      const isValid = verifier.verify(this.caCertificate, signature);
-
-      if (!isValid) {
-        logger.error('Catalog signature verification FAILED');
-        logger.debug(`Content to verify (first 200 chars): ${contentToVerify.substring(0, 200)}`);
-      } else {
-        logger.debug('Catalog signature verified successfully');
-      }
+    if (isValid) {
+      this.lastVerifiedAt = new Date();
+    }
 
-      return isValid;
-    } catch (error) {
-      logger.error('Error verifying catalog signature:', error);
-      return false;
+    if (!isValid) {
+      logger.error(`Catalog signature verification FAILED (key: ${catalog.key_id ?? ROOT_KEY_ID})`);
+      logger.debug(`Content to verify (first 200 chars): ${contentToVerify.substring(0, 200)}`);
+    } else {
+      logger.debug('Catalog signature verified successfully');
     }
-  }
 
-  /**
-   * Sanitize a parameter value for SQL substitution.
-   * Only allows: alphanumeric, underscore, dot, brackets.
-   * Must match server-side sanitization!
-   */
-  sanitizeParam(value: string): string {
-    return value.replace(/[^a-zA-Z0-9_.\[\]]/g, '');
+    return isValid;
   }
 
   /**
-   * Substitute parameters into a validated template.
+   * Bind parameters into a validated template.
    * Call validateTemplate() first!
    *
-   * @param template - SQL template with {{placeholders}}
-   * @param params - Parameter values to substitute
-   * @returns Final SQL query ready for execution
+   * @param template - SQL template with {{name:type}} placeholders
+   * @param params - Values for every placeholder (missing or extra params are rejected)
+   * @param dialect - Target database, for identifier quoting and placeholder syntax
+   * @returns Query text plus the values to send as bound parameters
    */
-  substituteParams(template: string, params: Record<string, string>): string {
-    let result = template;
-
-    for (const [key, value] of Object.entries(params)) {
-      const sanitized = this.sanitizeParam(value);
-      const placeholder = new RegExp(`\\{\\{${key}\\}\\}`, 'g');
-      result = result.replace(placeholder, sanitized);
+  bindParams(template: string, params: Record<string, SqlParamValue>, dialect: DbType): BoundQuery {
+    try {
+      return bindParams(template, params, dialect);
+    } catch (error) {
+      if (error instanceof ParamBindingError) {
+        throw new AllowlistValidationError(error.message, 'PARAM_INVALID');
+      }
+      throw error;
     }
-
-    return result;
   }
 
   /**
@@ -254,19 +535,61 @@ export class AllowlistService {
   getStatus(): {
     hasCatalog: boolean;
     expired: boolean;
+    version: number | null;
+    keyId: string | null;
     queryCount: number;
+    generatedAt: string | null;
     expiresAt: string | null;
     secondsUntilExpiration: number;
+    lastSyncAt: string | null;
+    lastVerifiedAt: string | null;
   } {
     return {
       hasCatalog: this.hasCatalog(),
       expired: this.isCatalogExpired(),
-      queryCount: this.templateHashMap.size,
+      version: this.catalog?.version ?? null,
+      keyId: this.catalog ? this.catalog.key_id ?? ROOT_KEY_ID : null,
+      queryCount: Object.keys(this.catalog?.queries ?? {}).length,
+      generatedAt: this.catalog?.generated_at ?? null,
       expiresAt: this.expiresAt?.toISOString() ?? null,
       secondsUntilExpiration: this.getTimeUntilExpiration(),
+      lastSyncAt: this.lastSyncAt?.toISOString() ?? null,
+      lastVerifiedAt: this.lastVerifiedAt?.toISOString() ?? null,
     };
   }
 
+  /**
+   * Approved tools in the current catalog
+   */
+  getApprovedTools(): { toolId: string; hash: string; hasSchema: boolean }[] {
+    return Object.entries(this.catalog?.queries ?? {})
+      .map(([toolId, hash]) => ({ toolId, hash, hasSchema: !!this.schemaFor(toolId) }))
+      .sort((a, b) => a.toolId.localeCompare(b.toolId));
+  }
+
+  /**
+   * Add a rejected template to the rolling log
+   */
+  recordRejection(template: string, toolId: string | undefined, error: AllowlistValidationError): void {
+    this.rejections.push({
+      timestamp: new Date().toISOString(),
+      hash: this.hashTemplate(template),
+      toolId: toolId ?? null,
+      code: error.code,
+      reason: error.message,
+    });
+    if (this.rejections.length > MAX_REJECTIONS) {
+      this.rejections.shift();
+    }
+  }
+
+  /**
+   * Rejected templates, newest first
+   */
+  getRejections(): TemplateRejection[] {
+    return [...this.rejections].reverse();
+  }
+
   /**
    * Clear the catalog (for testing or reset)
    */
@@ -274,6 +597,11 @@ export class AllowlistService {
     this.catalog = null;
     this.templateHashMap.clear();
     this.expiresAt = null;
+    if (this.catalogPath) {
+      fs.rm(this.catalogPath, { force: true }).catch(error => {
+        logger.warn('Failed to remove persisted query catalog:', error);
+      });
+    }
     logger.info('Query catalog cleared');
   }
 }
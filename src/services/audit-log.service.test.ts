@@ -0,0 +1,173 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AuditLogService, AuditRecord, AuditEntry, GENESIS_HASH } from './audit-log.service.js';
+
+function record(fields: Partial<AuditRecord> = {}): AuditRecord {
+  return {
+    messageId: 'msg-1',
+    action: 'sql.execute',
+    toolId: 'orders',
+    templateHash: 'sha256:1',
+    targetId: 'default',
+    sql: 'SELECT 1',
+    params: null,
+    duration: 5,
+    rowCount: 1,
+    error: null,
+    verdict: 'executed',
+    ...fields,
+  };
+}
+
+async function readEntries(file: string): Promise<AuditEntry[]> {
+  const content = await fs.readFile(file, 'utf-8');
+  return content.split('\n').filter(line => line.length > 0).map(line => JSON.parse(line) as AuditEntry);
+}
+
+describe('AuditLogService', () => {
+  let dir: string;
+  let logPath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'audit-'));
+    logPath = path.join(dir, 'audit.jsonl');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function recordAll(auditLog: AuditLogService, count: number, from = 1): Promise<void> {
+    for (let n = from; n < from + count; n++) {
+      await auditLog.record(record({ messageId: `msg-${n}`, toolId: n % 2 === 0 ? 'even' : 'odd' }));
+    }
+  }
+
+  it('chains entries from the genesis hash', async () => {
+    const auditLog = new AuditLogService(logPath);
+    await recordAll(auditLog, 3);
+
+    const entries = await readEntries(logPath);
+    expect(entries.map(entry => entry.seq)).toEqual([1, 2, 3]);
+    expect(entries[0].prevHash).toBe(GENESIS_HASH);
+    expect(entries[1].prevHash).toBe(entries[0].hash);
+    expect(entries[2].prevHash).toBe(entries[1].hash);
+
+    expect(await auditLog.verify()).toEqual({ valid: true, files: 1, entries: 3, firstSeq: 1, lastSeq: 3 });
+  });
+
+  it('reports an edited entry', async () => {
+    const auditLog = new AuditLogService(logPath);
+    await recordAll(auditLog, 3);
+
+    const content = await fs.readFile(logPath, 'utf-8');
+    await fs.writeFile(logPath, content.replace('"msg-2"', '"msg-X"'));
+
+    const result = await auditLog.verify();
+    expect(result.valid).toBe(false);
+    expect(result.error).toEqual({ file: 'audit.jsonl', line: 2, reason: 'Entry 2 does not match its hash' });
+  });
+
+  it('reports a removed entry', async () => {
+    const auditLog = new AuditLogService(logPath);
+    await recordAll(auditLog, 3);
+
+    const lines = (await fs.readFile(logPath, 'utf-8')).split('\n');
+    await fs.writeFile(logPath, [lines[0], lines[2], ''].join('\n'));
+
+    const result = await auditLog.verify();
+    expect(result.valid).toBe(false);
+    expect(result.error).toEqual({ file: 'audit.jsonl', line: 2, reason: 'Entry 3 does not link to entry 1' });
+  });
+
+  it('continues the chain across rotated files and drops the oldest', async () => {
+    const auditLog = new AuditLogService(logPath, { maxBytes: 1, maxFiles: 2 });
+    await recordAll(auditLog, 5);
+
+    expect((await readEntries(logPath)).map(entry => entry.seq)).toEqual([5]);
+    expect((await readEntries(path.join(dir, 'audit.1.jsonl'))).map(entry => entry.seq)).toEqual([4]);
+    expect((await readEntries(path.join(dir, 'audit.2.jsonl'))).map(entry => entry.seq)).toEqual([3]);
+    await expect(fs.access(path.join(dir, 'audit.3.jsonl'))).rejects.toThrow();
+
+    // The oldest retained entry links to a dropped one, which is not a break
+    expect(await auditLog.verify()).toEqual({ valid: true, files: 3, entries: 3, firstSeq: 3, lastSeq: 5 });
+  });
+
+  it('resumes the chain after a restart', async () => {
+    await recordAll(new AuditLogService(logPath), 2);
+
+    const auditLog = new AuditLogService(logPath);
+    await auditLog.load();
+    await recordAll(auditLog, 1, 3);
+
+    expect(await auditLog.verify()).toEqual({ valid: true, files: 1, entries: 3, firstSeq: 1, lastSeq: 3 });
+  });
+
+  it('resumes from the rotated file when the active one is empty', async () => {
+    await recordAll(new AuditLogService(logPath, { maxBytes: 1 }), 2);
+    // As left by a rotation whose next append never happened
+    await fs.rename(path.join(dir, 'audit.1.jsonl'), path.join(dir, 'audit.2.jsonl'));
+    await fs.rename(logPath, path.join(dir, 'audit.1.jsonl'));
+
+    const auditLog = new AuditLogService(logPath, { maxBytes: 1 });
+    await auditLog.load();
+    await recordAll(auditLog, 1, 3);
+
+    expect((await readEntries(logPath)).map(entry => entry.seq)).toEqual([3]);
+    expect(await auditLog.verify()).toEqual({ valid: true, files: 3, entries: 3, firstSeq: 1, lastSeq: 3 });
+  });
+
+  it('resumes from the last valid entry when the tail line is torn', async () => {
+    await recordAll(new AuditLogService(logPath), 2);
+    const [, second] = await readEntries(logPath);
+    await fs.appendFile(logPath, '{"seq":3,"hash":"trunc');
+
+    const auditLog = new AuditLogService(logPath);
+    await auditLog.load();
+    await recordAll(auditLog, 1, 3);
+
+    const lines = (await fs.readFile(logPath, 'utf-8')).split('\n').filter(line => line.length > 0);
+    expect(lines).toHaveLength(4);
+    const resumed = JSON.parse(lines[3]) as AuditEntry;
+    expect(resumed.seq).toBe(3);
+    expect(resumed.prevHash).toBe(second.hash);
+
+    // The torn line itself is still reported
+    const result = await auditLog.verify();
+    expect(result.valid).toBe(false);
+    expect(result.error).toEqual({ file: 'audit.jsonl', line: 3, reason: 'Line is not valid JSON' });
+  });
+
+  it('pages through matching entries newest first', async () => {
+    const auditLog = new AuditLogService(logPath, { maxBytes: 600 });
+    await recordAll(auditLog, 7);
+
+    const first = await auditLog.query({ toolId: 'odd' }, 0, 3);
+    expect(first.entries.map(entry => entry.seq)).toEqual([7, 5, 3]);
+    expect(first.hasMore).toBe(true);
+
+    const second = await auditLog.query({ toolId: 'odd' }, 3, 3);
+    expect(second.entries.map(entry => entry.seq)).toEqual([1]);
+    expect(second.hasMore).toBe(false);
+  });
+
+  it('streams entries oldest first with filters', async () => {
+    const auditLog = new AuditLogService(logPath, { maxBytes: 600 });
+    await recordAll(auditLog, 4);
+    await auditLog.record(record({ messageId: 'msg-5', verdict: 'denied' }));
+
+    const seqs: number[] = [];
+    for await (const entry of auditLog.entries({ toolId: 'even' }, 'oldest')) {
+      seqs.push(entry.seq);
+    }
+    expect(seqs).toEqual([2, 4]);
+
+    const denied = await auditLog.query({ verdict: 'denied' });
+    expect(denied.entries.map(entry => entry.messageId)).toEqual(['msg-5']);
+
+    const future = await auditLog.query({ from: new Date(Date.now() + 60_000).toISOString() });
+    expect(future.entries).toEqual([]);
+  });
+});
@@ -0,0 +1,450 @@
+/**
+ * Tamper-Evident Audit Log
+ *
+ * Append-only JSON lines recording every sql.execute and file.* request the
+ * agent served. Each entry carries the hash of the previous one, so editing,
+ * removing or reordering lines breaks the chain and is caught by verify().
+ *
+ * The active file is rotated by size (audit.jsonl -> audit.1.jsonl -> ...);
+ * the chain continues across files. Only the oldest retained file's first
+ * entry links to a hash that is no longer on disk.
+ */
+import crypto from 'crypto';
+import fs, { FileHandle } from 'fs/promises';
+import path from 'path';
+import readline from 'readline';
+import { logger } from '../utils/logger.js';
+import { canonicalJson } from '../utils/canonical-json.js';
+
+// prevHash of the very first entry
+export const GENESIS_HASH = '0'.repeat(64);
+
+export type AuditAction = 'sql.execute' | 'file.read' | 'file.list' | 'file.search';
+
+// executed: ran to completion; rejected: failed catalog/policy checks;
+// denied: blocked by the local deny-list; failed/cancelled: errored or aborted while running
+export type AuditVerdict = 'executed' | 'rejected' | 'denied' | 'failed' | 'cancelled';
+
+// What the caller supplies for one request
+export interface AuditRecord {
+  messageId: string;
+  action: AuditAction;
+  toolId: string | null;
+  templateHash: string | null;
+  targetId: string | null;
+  sql: string | null;                      // Final SQL text sent to the driver
+  params: Record<string, unknown> | null;  // Bound SQL params, or the file.* request payload
+  duration: number;
+  rowCount: number | null;
+  error: string | null;
+  verdict: AuditVerdict;
+}
+
+export interface AuditEntry extends AuditRecord {
+  seq: number;
+  timestamp: string;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  files: number;
+  entries: number;
+  firstSeq: number | null;
+  lastSeq: number | null;
+  // First broken link, if any
+  error?: { file: string; line: number; reason: string };
+}
+
+export interface AuditFilter {
+  from?: string;          // ISO timestamp, inclusive
+  to?: string;            // ISO timestamp, inclusive
+  toolId?: string;
+  action?: AuditAction;
+  verdict?: AuditVerdict;
+}
+
+export interface AuditPage {
+  entries: AuditEntry[];
+  hasMore: boolean;       // More matching entries exist past this page
+}
+
+export interface AuditLogOptions {
+  maxBytes?: number;   // Rotate the active file beyond this size
+  maxFiles?: number;   // Rotated files kept besides the active one
+}
+
+// A retained file opened for reading, with its size when opened
+interface OpenedFile {
+  file: string;
+  handle: FileHandle;
+  size: number;
+}
+
+// Bytes read per step when scanning a file from its end
+const READ_CHUNK_BYTES = 64 * 1024;
+
+/**
+ * Hash of an entry: SHA-256 over the canonical JSON of every field except `hash`
+ */
+function hashEntry(entry: Omit<AuditEntry, 'hash'>): string {
+  return crypto.createHash('sha256').update(canonicalJson(entry)).digest('hex');
+}
+
+/**
+ * Non-empty lines of the first `size` bytes of a file, oldest first
+ */
+async function* readLinesForward(handle: FileHandle, size: number): AsyncGenerator<string> {
+  if (size === 0) return;
+
+  const lines = readline.createInterface({
+    input: handle.createReadStream({ start: 0, end: size - 1, autoClose: false }),
+    crlfDelay: Infinity,
+  });
+  for await (const line of lines) {
+    if (line.length > 0) yield line;
+  }
+}
+
+/**
+ * Non-empty lines of the first `size` bytes of a file, newest first. The file
+ * is read backwards in chunks; a line split across chunks is carried over.
+ */
+async function* readLinesBackward(handle: FileHandle, size: number): AsyncGenerator<string> {
+  const buffer = Buffer.alloc(READ_CHUNK_BYTES);
+  let position = size;
+  let carry = Buffer.alloc(0);
+
+  while (position > 0) {
+    const length = Math.min(READ_CHUNK_BYTES, position);
+    position -= length;
+    const { bytesRead } = await handle.read(buffer, 0, length, position);
+
+    const chunk = Buffer.concat([buffer.subarray(0, bytesRead), carry]);
+    let end = chunk.length;
+    for (let index = chunk.length - 1; index >= 0; index--) {
+      if (chunk[index] !== 0x0a) continue;
+      if (end > index + 1) yield chunk.toString('utf-8', index + 1, end);
+      end = index;
+    }
+    carry = chunk.subarray(0, end);
+  }
+
+  if (carry.length > 0) yield carry.toString('utf-8');
+}
+
+export class AuditLogService {
+  private logPath: string;
+  private maxBytes: number;
+  private maxFiles: number;
+  private seq = 0;
+  private lastHash = GENESIS_HASH;
+  private size = 0;
+  // Appends are serialized so the chain follows write order
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param logPath - Active log file; rotated files sit next to it as <name>.<n>.jsonl
+   */
+  constructor(logPath: string, options: AuditLogOptions = {}) {
+    this.logPath = logPath;
+    this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 10;
+  }
+
+  /**
+   * Pick up the chain head from the newest entry on disk (call once on startup).
+   * Unreadable lines at the end, e.g. a write torn by a crash, are skipped so
+   * the chain continues from the last valid entry; verify() reports them.
+   */
+  async load(): Promise<void> {
+    try {
+      const opened = await this.openFiles(this.listFiles().reverse());
+      try {
+        for (const { file, handle, size } of opened) {
+          if (file === this.logPath) {
+            this.size = size;
+            await this.terminateTornLine(handle, size);
+          }
+
+          let skipped = 0;
+          for await (const line of readLinesBackward(handle, size)) {
+            const last = this.parseEntry(line);
+            if (!last) {
+              skipped++;
+              continue;
+            }
+
+            if (skipped > 0) {
+              logger.warn(`Skipped ${skipped} unreadable line(s) at the end of ${path.basename(file)}`);
+            }
+            this.seq = last.seq;
+            this.lastHash = last.hash;
+            logger.info(`Audit log resumed at entry ${this.seq}`);
+            return;
+          }
+        }
+      } finally {
+        await Promise.all(opened.map(({ handle }) => handle.close()));
+      }
+    } catch (error) {
+      // Keep going with a fresh chain head - verify() will report the break
+      logger.error('Failed to read audit log head:', error);
+    }
+  }
+
+  /**
+   * Append an entry. Never throws - a failed write is logged, and the next entry
+   * still chains to the last one that reached the disk.
+   */
+  record(record: AuditRecord): Promise<void> {
+    this.queue = this.queue
+      .then(() => this.append(record))
+      .catch(error => {
+        logger.error('Failed to write audit log entry:', error);
+      });
+    return this.queue;
+  }
+
+  /**
+   * Check every retained file, oldest first and line by line: each entry's hash
+   * must match its content and its prevHash must match the entry before it.
+   */
+  async verify(): Promise<AuditVerification> {
+    await this.queue;
+
+    const result: AuditVerification = { valid: true, files: 0, entries: 0, firstSeq: null, lastSeq: null };
+    let prev: AuditEntry | null = null;
+
+    const opened = await this.openFiles(this.listFiles());
+    try {
+      for (const { file, handle, size } of opened) {
+        result.files++;
+        let index = 0;
+
+        for await (const line of readLinesForward(handle, size)) {
+          index++;
+          const fail = (reason: string): AuditVerification => ({
+            ...result,
+            valid: false,
+            error: { file: path.basename(file), line: index, reason },
+          });
+
+          let entry: AuditEntry;
+          try {
+            entry = JSON.parse(line) as AuditEntry;
+          } catch {
+            return fail('Line is not valid JSON');
+          }
+
+          const { hash, ...content } = entry;
+          if (hashEntry(content) !== hash) {
+            return fail(`Entry ${entry.seq} does not match its hash`);
+          }
+          if (prev) {
+            if (entry.prevHash !== prev.hash) {
+              return fail(`Entry ${entry.seq} does not link to entry ${prev.seq}`);
+            }
+            if (entry.seq !== prev.seq + 1) {
+              return fail(`Entry ${entry.seq} follows entry ${prev.seq}`);
+            }
+          } else if (entry.seq === 1 && entry.prevHash !== GENESIS_HASH) {
+            return fail('First entry does not start the chain');
+          }
+
+          result.entries++;
+          result.firstSeq = result.firstSeq ?? entry.seq;
+          result.lastSeq = entry.seq;
+          prev = entry;
+        }
+      }
+    } finally {
+      await Promise.all(opened.map(({ handle }) => handle.close()));
+    }
+
+    return result;
+  }
+
+  /**
+   * One page of the entries matching the filter, newest first. Reading stops
+   * at the first match past the page.
+   */
+  async query(filter: AuditFilter = {}, offset = 0, limit = Infinity): Promise<AuditPage> {
+    const entries: AuditEntry[] = [];
+    let skipped = 0;
+
+    for await (const entry of this.entries(filter)) {
+      if (skipped < offset) {
+        skipped++;
+      } else if (entries.length < limit) {
+        entries.push(entry);
+      } else {
+        return { entries, hasMore: true };
+      }
+    }
+
+    return { entries, hasMore: false };
+  }
+
+  /**
+   * Entries matching the filter across all retained files, streamed line by
+   * line. Stop iterating to stop reading.
+   */
+  async *entries(filter: AuditFilter = {}, order: 'newest' | 'oldest' = 'newest'): AsyncGenerator<AuditEntry> {
+    await this.queue;
+
+    const from = filter.from ? new Date(filter.from).getTime() : -Infinity;
+    const to = filter.to ? new Date(filter.to).getTime() : Infinity;
+
+    // Open every file up front: a rotation while the caller is still reading
+    // renames the paths but not the open handles, and later appends past the
+    // recorded size are left out
+    const files = order === 'newest' ? this.listFiles().reverse() : this.listFiles();
+    const opened = await this.openFiles(files);
+
+    try {
+      for (const { handle, size } of opened) {
+        const lines = order === 'newest' ? readLinesBackward(handle, size) : readLinesForward(handle, size);
+
+        for await (const line of lines) {
+          let entry: AuditEntry;
+          try {
+            entry = JSON.parse(line) as AuditEntry;
+          } catch {
+            continue; // Reported by verify()
+          }
+
+          const time = new Date(entry.timestamp).getTime();
+          if (time < from || time > to) continue;
+          if (filter.toolId && entry.toolId !== filter.toolId) continue;
+          if (filter.action && entry.action !== filter.action) continue;
+          if (filter.verdict && entry.verdict !== filter.verdict) continue;
+
+          yield entry;
+        }
+      }
+    } finally {
+      await Promise.all(opened.map(({ handle }) => handle.close()));
+    }
+  }
+
+  /**
+   * Retained files, oldest first
+   */
+  listFiles(): string[] {
+    const files: string[] = [];
+    for (let n = this.maxFiles; n >= 1; n--) {
+      files.push(this.rotatedPath(n));
+    }
+    files.push(this.logPath);
+    return files;
+  }
+
+  private async append(record: AuditRecord): Promise<void> {
+    const content: Omit<AuditEntry, 'hash'> = {
+      ...record,
+      seq: this.seq + 1,
+      timestamp: new Date().toISOString(),
+      prevHash: this.lastHash,
+    };
+    const entry: AuditEntry = { ...content, hash: hashEntry(content) };
+    const line = `${JSON.stringify(entry)}\n`;
+
+    if (this.size > 0 && this.size + Buffer.byteLength(line) > this.maxBytes) {
+      await this.rotate();
+    }
+
+    await fs.mkdir(path.dirname(this.logPath), { recursive: true });
+    await fs.appendFile(this.logPath, line, { mode: 0o600 });
+
+    this.size += Buffer.byteLength(line);
+    this.seq = entry.seq;
+    this.lastHash = entry.hash;
+  }
+
+  /**
+   * Shift rotated files up by one, dropping the oldest, and start a new active file
+   */
+  private async rotate(): Promise<void> {
+    await fs.rm(this.rotatedPath(this.maxFiles), { force: true });
+    for (let n = this.maxFiles - 1; n >= 1; n--) {
+      await this.renameIfExists(this.rotatedPath(n), this.rotatedPath(n + 1));
+    }
+    if (this.maxFiles > 0) {
+      await fs.rename(this.logPath, this.rotatedPath(1));
+    } else {
+      await fs.rm(this.logPath, { force: true });
+    }
+
+    this.size = 0;
+    logger.info(`Audit log rotated at entry ${this.seq}`);
+  }
+
+  private rotatedPath(n: number): string {
+    const ext = path.extname(this.logPath);
+    return `${this.logPath.slice(0, this.logPath.length - ext.length)}.${n}${ext}`;
+  }
+
+  private async renameIfExists(from: string, to: string): Promise<void> {
+    try {
+      await fs.rename(from, to);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+
+  /**
+   * Open the files that exist, with their current size
+   */
+  private async openFiles(files: string[]): Promise<OpenedFile[]> {
+    const opened: OpenedFile[] = [];
+
+    try {
+      for (const file of files) {
+        let handle: FileHandle;
+        try {
+          handle = await fs.open(file, 'r');
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+          throw error;
+        }
+        // Tracked before stat() so the handle is closed if stat() fails
+        const entry = { file, handle, size: 0 };
+        opened.push(entry);
+        entry.size = (await handle.stat()).size;
+      }
+    } catch (error) {
+      await Promise.all(opened.map(({ handle }) => handle.close()));
+      throw error;
+    }
+
+    return opened;
+  }
+
+  /**
+   * End a torn last line of the active file so the next entry starts on its own line
+   */
+  private async terminateTornLine(handle: FileHandle, size: number): Promise<void> {
+    if (size === 0) return;
+
+    const last = Buffer.alloc(1);
+    await handle.read(last, 0, 1, size - 1);
+    if (last[0] !== 0x0a) {
+      await fs.appendFile(this.logPath, '\n');
+      this.size++;
+    }
+  }
+
+  /**
+   * An entry the chain can continue from, or null for a line that isn't one
+   */
+  private parseEntry(line: string): AuditEntry | null {
+    try {
+      const entry = JSON.parse(line) as AuditEntry;
+      return Number.isInteger(entry?.seq) && typeof entry.hash === 'string' ? entry : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CircuitBreaker, QueryBudget, SqlUnavailableError } from './circuit-breaker.js';
+
+/**
+ * Expect fn to throw a SqlUnavailableError with the given code
+ */
+function expectCode(fn: () => unknown, code: SqlUnavailableError['code']): SqlUnavailableError {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(SqlUnavailableError);
+    expect((error as SqlUnavailableError).code).toBe(code);
+    return error as SqlUnavailableError;
+  }
+  return expect.fail(`Expected ${code}`);
+}
+
+describe('CircuitBreaker', () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    breaker = new CircuitBreaker('default', 3, 30_000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function fail(times: number): void {
+    for (let n = 0; n < times; n++) {
+      breaker.acquire();
+      breaker.recordFailure();
+    }
+  }
+
+  it('opens after the threshold of consecutive failures', () => {
+    fail(2);
+    breaker.acquire();
+    breaker.recordSuccess();
+    fail(2);
+    expect(breaker.getStatus()).toMatchObject({ state: 'closed', consecutiveFailures: 2 });
+
+    fail(1);
+    expect(breaker.getStatus()).toMatchObject({ state: 'open', consecutiveFailures: 3 });
+
+    const error = expectCode(() => breaker.acquire(), 'CIRCUIT_OPEN');
+    expect(error.retryAfterMs).toBe(30_000);
+  });
+
+  it('lets a single probe through once the reset timeout has passed', () => {
+    fail(3);
+    vi.advanceTimersByTime(29_999);
+    expectCode(() => breaker.acquire(), 'CIRCUIT_OPEN');
+
+    vi.advanceTimersByTime(1);
+    breaker.acquire();
+    expect(breaker.getStatus().state).toBe('half-open');
+
+    // Everything else waits for the probe
+    expectCode(() => breaker.acquire(), 'CIRCUIT_OPEN');
+    expectCode(() => breaker.acquire(), 'CIRCUIT_OPEN');
+  });
+
+  it('closes when the probe succeeds', () => {
+    fail(3);
+    vi.advanceTimersByTime(30_000);
+    breaker.acquire();
+    breaker.recordSuccess();
+
+    expect(breaker.getStatus()).toEqual({ state: 'closed', consecutiveFailures: 0, openedAt: null, retryAt: null });
+    breaker.acquire();
+    breaker.acquire();
+  });
+
+  it('opens again for a full timeout when the probe fails', () => {
+    fail(3);
+    vi.advanceTimersByTime(30_000);
+    breaker.acquire();
+    breaker.recordFailure();
+
+    expect(breaker.getStatus().state).toBe('open');
+    vi.advanceTimersByTime(29_999);
+    expectCode(() => breaker.acquire(), 'CIRCUIT_OPEN');
+    vi.advanceTimersByTime(1);
+    breaker.acquire();
+  });
+
+  it('lets another probe through when the probe is released', () => {
+    fail(3);
+    vi.advanceTimersByTime(30_000);
+    breaker.acquire();
+    breaker.release();
+
+    breaker.acquire();
+    expect(breaker.getStatus().state).toBe('half-open');
+  });
+});
+
+describe('QueryBudget', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('refuses queries beyond the per-minute limit until the window slides', () => {
+    const budget = new QueryBudget('default', 2);
+    budget.take();
+    vi.advanceTimersByTime(20_000);
+    budget.take();
+
+    const error = expectCode(() => budget.take(), 'QUERY_BUDGET_EXCEEDED');
+    expect(error.retryAfterMs).toBe(40_000);
+    expect(budget.getStatus()).toEqual({ limit: 2, used: 2 });
+
+    vi.advanceTimersByTime(40_000);
+    budget.take();
+    expect(budget.getStatus()).toEqual({ limit: 2, used: 2 });
+  });
+
+  it('never refuses when unlimited', () => {
+    const budget = new QueryBudget('default', 0);
+    for (let n = 0; n < 1000; n++) {
+      budget.take();
+    }
+    expect(budget.getStatus()).toEqual({ limit: null, used: 0 });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Back-pressure for a SQL target: a circuit breaker that stops sending queries
+ * to a database that keeps failing, and a per-minute query budget. Both report
+ * their state in the heartbeat (via SqlService.getTargetsHealth) so the server
+ * can back off too.
+ */
+import { CircuitState, CircuitBreakerStatus, QueryBudgetStatus } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Error thrown when a query is refused before reaching the database
+ */
+export class SqlUnavailableError extends Error {
+  constructor(
+    message: string,
+    public code: 'CIRCUIT_OPEN' | 'QUERY_BUDGET_EXCEEDED',
+    public retryAfterMs: number
+  ) {
+    super(message);
+    this.name = 'SqlUnavailableError';
+  }
+}
+
+/**
+ * closed: queries flow; open: refused until the reset timeout passes;
+ * half-open: one probe query is let through - success closes the breaker,
+ * failure opens it again.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+
+  constructor(
+    private targetId: string,
+    private failureThreshold: number,
+    private resetTimeoutMs: number
+  ) {}
+
+  /**
+   * Claim permission to run a query. Throws SqlUnavailableError while open.
+   */
+  acquire(): void {
+    if (this.state === 'open') {
+      const wait = this.openedAt + this.resetTimeoutMs - Date.now();
+      if (wait > 0) {
+        throw new SqlUnavailableError(
+          `Circuit open for SQL target ${this.targetId} after ${this.consecutiveFailures} consecutive failures, retry in ${Math.ceil(wait / 1000)}s`,
+          'CIRCUIT_OPEN',
+          wait
+        );
+      }
+      this.state = 'half-open';
+      logger.info(`Circuit half-open for SQL target ${this.targetId}, probing`);
+    }
+
+    if (this.state === 'half-open') {
+      if (this.probeInFlight) {
+        throw new SqlUnavailableError(
+          `Circuit half-open for SQL target ${this.targetId}, waiting for the probe query`,
+          'CIRCUIT_OPEN',
+          1000
+        );
+      }
+      this.probeInFlight = true;
+    }
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      logger.info(`Circuit closed for SQL target ${this.targetId}`);
+    }
+    this.reset();
+  }
+
+  recordFailure(): void {
+    this.probeInFlight = false;
+    this.consecutiveFailures++;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.failureThreshold) {
+      if (this.state !== 'open') {
+        logger.warn(`Circuit opened for SQL target ${this.targetId} after ${this.consecutiveFailures} consecutive failures`);
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * Give back an acquired slot when the outcome says nothing about database health (cancelled)
+   */
+  release(): void {
+    this.probeInFlight = false;
+  }
+
+  reset(): void {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.probeInFlight = false;
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    const open = this.state !== 'closed';
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: open ? new Date(this.openedAt).toISOString() : null,
+      retryAt: this.state === 'open' ? new Date(this.openedAt + this.resetTimeoutMs).toISOString() : null,
+    };
+  }
+}
+
+/**
+ * Sliding one-minute window of query start times
+ */
+export class QueryBudget {
+  private started: number[] = [];
+
+  /**
+   * @param perMinute - Queries allowed per minute (0 = unlimited)
+   */
+  constructor(private targetId: string, private perMinute: number) {}
+
+  /**
+   * Count a query against the budget. Throws SqlUnavailableError if it is spent.
+   */
+  take(): void {
+    if (this.perMinute <= 0) return;
+
+    const now = Date.now();
+    this.prune(now);
+
+    if (this.started.length >= this.perMinute) {
+      const wait = this.started[0] + 60_000 - now;
+      throw new SqlUnavailableError(
+        `Query budget for SQL target ${this.targetId} exhausted (${this.perMinute}/min), retry in ${Math.ceil(wait / 1000)}s`,
+        'QUERY_BUDGET_EXCEEDED',
+        wait
+      );
+    }
+    this.started.push(now);
+  }
+
+  getStatus(): QueryBudgetStatus {
+    this.prune(Date.now());
+    return {
+      limit: this.perMinute > 0 ? this.perMinute : null,
+      used: this.started.length,
+    };
+  }
+
+  private prune(now: number): void {
+    while (this.started.length > 0 && this.started[0] <= now - 60_000) {
+      this.started.shift();
+    }
+  }
+}
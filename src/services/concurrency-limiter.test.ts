@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { ConcurrencyLimiter, AgentBusyError } from './concurrency-limiter.js';
+
+/**
+ * A task that runs until release() is called, recording when it started
+ */
+function gate(started: string[], name: string): { task: () => Promise<string>; release: () => void } {
+  let release!: () => void;
+  const done = new Promise<void>(resolve => {
+    release = resolve;
+  });
+  return {
+    task: async () => {
+      started.push(name);
+      await done;
+      return name;
+    },
+    release,
+  };
+}
+
+// Let queued hand-overs and task starts run
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('ConcurrencyLimiter', () => {
+  it('runs up to the limit at once and starts queued tasks in arrival order', async () => {
+    const limiter = new ConcurrencyLimiter('sql', 2, 10);
+    const started: string[] = [];
+    const gates = ['a', 'b', 'c', 'd'].map(name => gate(started, name));
+
+    const runs = gates.map(({ task }) => limiter.run(task));
+    await settle();
+    expect(started).toEqual(['a', 'b']);
+    expect(limiter.getStats()).toMatchObject({ active: 2, queued: 2 });
+
+    gates[1].release();
+    await settle();
+    expect(started).toEqual(['a', 'b', 'c']);
+
+    gates[0].release();
+    await settle();
+    expect(started).toEqual(['a', 'b', 'c', 'd']);
+    expect(limiter.getStats()).toMatchObject({ active: 2, queued: 0 });
+
+    gates[2].release();
+    gates[3].release();
+    const results = await Promise.all(runs);
+    expect(results.map(({ result }) => result)).toEqual(['a', 'b', 'c', 'd']);
+    expect(limiter.getStats()).toMatchObject({ active: 0, queued: 0 });
+  });
+
+  it('refuses requests once the queue is full', async () => {
+    const limiter = new ConcurrencyLimiter('file', 1, 1);
+    const started: string[] = [];
+    const first = gate(started, 'a');
+    const second = gate(started, 'b');
+
+    const runs = [limiter.run(first.task), limiter.run(second.task)];
+    const refused = gate(started, 'c');
+    const error = await limiter.run(refused.task).catch((rejection: unknown) => rejection);
+
+    expect(error).toBeInstanceOf(AgentBusyError);
+    expect(error).toMatchObject({ code: 'AGENT_BUSY', actionClass: 'file' });
+    expect(limiter.getStats()).toEqual({ active: 1, queued: 1, maxConcurrent: 1, maxQueue: 1, rejected: 1 });
+
+    first.release();
+    second.release();
+    await Promise.all(runs);
+    expect(started).toEqual(['a', 'b']);
+  });
+
+  it('frees the slot when a task fails', async () => {
+    const limiter = new ConcurrencyLimiter('sql', 1, 1);
+
+    await expect(limiter.run(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    expect(await limiter.run(async () => 'ok')).toMatchObject({ result: 'ok' });
+    expect(limiter.getStats()).toMatchObject({ active: 0, queued: 0 });
+  });
+
+  it('drops an aborted request from the queue without running it', async () => {
+    const limiter = new ConcurrencyLimiter('sql', 1, 5);
+    const started: string[] = [];
+    const first = gate(started, 'a');
+    const aborted = gate(started, 'b');
+    const last = gate(started, 'c');
+    const controller = new AbortController();
+
+    const firstRun = limiter.run(first.task);
+    const abortedRun = limiter.run(aborted.task, controller.signal).catch((rejection: unknown) => rejection);
+    const lastRun = limiter.run(last.task);
+    await settle();
+    expect(limiter.getStats().queued).toBe(2);
+
+    controller.abort(new Error('cancelled'));
+    expect(await abortedRun).toEqual(new Error('cancelled'));
+    expect(limiter.getStats().queued).toBe(1);
+
+    first.release();
+    last.release();
+    await Promise.all([firstRun, lastRun]);
+    expect(started).toEqual(['a', 'c']);
+    expect(limiter.getStats()).toMatchObject({ active: 0, queued: 0 });
+  });
+
+  it('refuses a request whose signal has already aborted', async () => {
+    const limiter = new ConcurrencyLimiter('sql', 1, 1);
+    const controller = new AbortController();
+    controller.abort(new Error('cancelled'));
+
+    let ran = false;
+    await expect(limiter.run(async () => { ran = true; }, controller.signal)).rejects.toThrow('cancelled');
+    expect(ran).toBe(false);
+    expect(limiter.getStats().active).toBe(0);
+  });
+});
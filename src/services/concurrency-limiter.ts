@@ -0,0 +1,100 @@
+/**
+ * Concurrency limit with a bounded FIFO queue for one class of server requests.
+ * Requests beyond the limit wait their turn; once the queue is full new ones
+ * are refused with AgentBusyError so the server can back off and retry.
+ */
+import { logger } from '../utils/logger.js';
+
+export type ActionClass = 'sql' | 'file';
+
+export interface LimiterStats {
+  active: number;
+  queued: number;
+  maxConcurrent: number;
+  maxQueue: number;
+  rejected: number;
+}
+
+/**
+ * Error thrown when the queue for an action class is full
+ */
+export class AgentBusyError extends Error {
+  code = 'AGENT_BUSY' as const;
+
+  constructor(public actionClass: ActionClass, queued: number) {
+    super(`Agent busy: ${actionClass} queue is full (${queued} waiting), retry later`);
+    this.name = 'AgentBusyError';
+  }
+}
+
+export class ConcurrencyLimiter {
+  private active = 0;
+  private rejected = 0;
+  // Resolvers of queued requests, oldest first
+  private waiting: Array<() => void> = [];
+
+  constructor(
+    private actionClass: ActionClass,
+    private maxConcurrent: number,
+    private maxQueue: number
+  ) {}
+
+  /**
+   * Run the task once a slot is free. Resolves with its result and the time
+   * spent queued; throws AgentBusyError without running it if the queue is full.
+   * If the signal aborts while the request is queued, it leaves the queue and
+   * run() throws the abort reason without running the task.
+   */
+  async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<{ result: T; queueTime: number }> {
+    const enqueuedAt = Date.now();
+    signal?.throwIfAborted();
+
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+    } else {
+      if (this.waiting.length >= this.maxQueue) {
+        this.rejected++;
+        throw new AgentBusyError(this.actionClass, this.waiting.length);
+      }
+      // The finishing request hands its slot over, so `active` is unchanged
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          this.waiting.splice(this.waiting.indexOf(dequeue), 1);
+          reject(signal?.reason);
+        };
+        const dequeue = () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        };
+        this.waiting.push(dequeue);
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+    }
+
+    const queueTime = Date.now() - enqueuedAt;
+    if (queueTime > 0) {
+      logger.debug(`Request waited ${queueTime}ms in the ${this.actionClass} queue`);
+    }
+
+    try {
+      return { result: await task(), queueTime };
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+
+  getStats(): LimiterStats {
+    return {
+      active: this.active,
+      queued: this.waiting.length,
+      maxConcurrent: this.maxConcurrent,
+      maxQueue: this.maxQueue,
+      rejected: this.rejected,
+    };
+  }
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DenyListService, DenyRuleError, DenyCheck } from './deny-list.service.js';
+import { StatementPolicyService } from './statement-policy.service.js';
+import { DbType } from '../types/index.js';
+
+const policy = new StatementPolicyService('read-only');
+
+const sqlCheck = (sql: string, dialect: DbType = 'mssql', targetId = 'default'): DenyCheck => ({
+  targetId,
+  statementClasses: () => policy.categories(sql, dialect),
+});
+
+describe('DenyListService', () => {
+  let denyList: DenyListService;
+
+  beforeEach(() => {
+    denyList = new DenyListService(null);
+  });
+
+  describe('addRule', () => {
+    it('rejects malformed rules', async () => {
+      await expect(denyList.addRule({ type: 'toolId', value: '  ' })).rejects.toThrow(DenyRuleError);
+      await expect(denyList.addRule({ type: 'templateHash', value: 'sha256:abc' })).rejects.toThrow(DenyRuleError);
+      await expect(denyList.addRule({ type: 'statementClass', value: 'delete' })).rejects.toThrow(DenyRuleError);
+    });
+
+    it('trims values and defaults the scope to all targets', async () => {
+      const rule = await denyList.addRule({ type: 'toolId', value: ' report ' });
+      expect(rule).toMatchObject({ value: 'report', targetId: null, reason: null });
+    });
+  });
+
+  describe('check', () => {
+    it('matches tool ids and template hashes', async () => {
+      const hash = `sha256:${'a'.repeat(64)}`;
+      await denyList.addRule({ type: 'toolId', value: 'export' });
+      await denyList.addRule({ type: 'templateHash', value: hash });
+
+      expect(denyList.check({ toolId: 'export', targetId: 'default' })?.value).toBe('export');
+      expect(denyList.check({ templateHash: hash, targetId: 'default' })?.value).toBe(hash);
+      expect(denyList.check({ toolId: 'report', targetId: 'default' })).toBeNull();
+    });
+
+    it('only applies target-scoped rules to that target', async () => {
+      await denyList.addRule({ type: 'toolId', value: 'export', targetId: 'warehouse' });
+
+      expect(denyList.check({ toolId: 'export', targetId: 'default' })).toBeNull();
+      expect(denyList.check({ toolId: 'export', targetId: 'warehouse' })).not.toBeNull();
+    });
+
+    it('matches a statement class rule against single statements', async () => {
+      await denyList.addRule({ type: 'statementClass', value: 'write' });
+
+      expect(denyList.check(sqlCheck('UPDATE dbo.t SET a = 1'))).not.toBeNull();
+      expect(denyList.check(sqlCheck('SELECT * FROM dbo.t'))).toBeNull();
+    });
+
+    it.each<[string, DbType, string]>([
+      ['write', 'mssql', 'UPDATE dbo.t SET a = 1; CHECKPOINT'],
+      ['write', 'postgres', 'INSERT INTO t VALUES (1); DROP TABLE u'],
+      ['write', 'mysql', 'DELETE FROM t; GRANT ALL ON *.* TO x'],
+      ['ddl', 'mssql', 'CREATE TABLE dbo.x (id int); EXEC sp_configure'],
+    ])('denies %s when a more severe statement is added (%s: %s)', async (value, dialect, sql) => {
+      await denyList.addRule({ type: 'statementClass', value });
+
+      expect(denyList.check(sqlCheck(sql, dialect))?.value).toBe(value);
+    });
+
+    it('does not classify the query when no statement class rule applies', async () => {
+      await denyList.addRule({ type: 'toolId', value: 'export' });
+      let classified = false;
+
+      denyList.check({ toolId: 'report', targetId: 'default', statementClasses: () => {
+        classified = true;
+        return new Set();
+      } });
+      expect(classified).toBe(false);
+    });
+
+    it('records denials for the heartbeat', async () => {
+      const rule = await denyList.addRule({ type: 'toolId', value: 'export' });
+      denyList.check({ toolId: 'export', targetId: 'default' });
+      denyList.check({ toolId: 'report', targetId: 'default' });
+
+      const summary = denyList.getSummary();
+      expect(summary.denialCount).toBe(1);
+      expect(summary.recentDenials[0]).toMatchObject({ ruleId: rule.id, toolId: 'export', targetId: 'default' });
+    });
+
+    it('stops matching once a rule is removed', async () => {
+      const rule = await denyList.addRule({ type: 'toolId', value: 'export' });
+      expect(await denyList.removeRule(rule.id)).toBe(true);
+      expect(await denyList.removeRule(rule.id)).toBe(false);
+      expect(denyList.check({ toolId: 'export', targetId: 'default' })).toBeNull();
+    });
+  });
+});
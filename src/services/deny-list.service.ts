@@ -0,0 +1,184 @@
+/**
+ * Local Deny-List Service
+ *
+ * Operator veto over the server catalog: a tool, template hash or statement
+ * class listed here never runs, even if the server signed it. Rules can be
+ * scoped to a single SQL target. Managed through the local API and persisted
+ * to the config volume.
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger.js';
+import { DenyRule, DenyRuleType, DenialRecord, DenyListSummary, StatementCategory } from '../types/messages.js';
+
+// Denials kept for the heartbeat
+const MAX_RECENT_DENIALS = 20;
+
+const STATEMENT_CATEGORIES: StatementCategory[] = ['read', 'write', 'ddl', 'admin'];
+
+/**
+ * Error thrown when a rule is malformed
+ */
+export class DenyRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DenyRuleError';
+  }
+}
+
+// What a sql.execute request is checked against
+export interface DenyCheck {
+  toolId?: string;
+  templateHash?: string;
+  // Categories of every statement in the batch. Resolved lazily - classifying
+  // the query is only needed for statementClass rules
+  statementClasses?: () => Set<StatementCategory>;
+  targetId: string;
+}
+
+export class DenyListService {
+  private listPath: string | null;
+  private rules: DenyRule[] = [];
+  private denialCount = 0;
+  private recentDenials: DenialRecord[] = [];
+
+  /**
+   * @param listPath - File the rules are persisted to (null disables persistence)
+   */
+  constructor(listPath: string | null = null) {
+    this.listPath = listPath;
+  }
+
+  /**
+   * Load persisted rules (call once on startup)
+   */
+  async load(): Promise<void> {
+    if (!this.listPath) return;
+
+    try {
+      const content = JSON.parse(await fs.readFile(this.listPath, 'utf-8')) as { rules?: DenyRule[] };
+      this.rules = content.rules ?? [];
+      logger.info(`Deny-list loaded: ${this.rules.length} rule(s)`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn('Failed to read deny-list:', error);
+      }
+    }
+  }
+
+  getRules(): DenyRule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * Add a rule and persist the list. Throws DenyRuleError if it is malformed.
+   */
+  async addRule(input: { type: DenyRuleType; value: string; targetId?: string | null; reason?: string | null }): Promise<DenyRule> {
+    const value = typeof input.value === 'string' ? input.value.trim() : '';
+    if (!value) {
+      throw new DenyRuleError('Rule value is required');
+    }
+
+    switch (input.type) {
+      case 'toolId':
+        break;
+      case 'templateHash':
+        if (!/^sha256:[0-9a-f]{64}$/.test(value)) {
+          throw new DenyRuleError('Template hash must look like sha256:<64 hex chars>');
+        }
+        break;
+      case 'statementClass':
+        if (!STATEMENT_CATEGORIES.includes(value as StatementCategory)) {
+          throw new DenyRuleError(`Statement class must be one of: ${STATEMENT_CATEGORIES.join(', ')}`);
+        }
+        break;
+      default:
+        throw new DenyRuleError(`Unknown rule type: ${input.type}`);
+    }
+
+    const rule: DenyRule = {
+      id: uuidv4(),
+      type: input.type,
+      value,
+      targetId: input.targetId || null,
+      reason: input.reason || null,
+      createdAt: new Date().toISOString(),
+    };
+
+    this.rules.push(rule);
+    await this.persist();
+    logger.info(`Deny rule added: ${rule.type}=${rule.value}${rule.targetId ? ` (target: ${rule.targetId})` : ''}`);
+    return rule;
+  }
+
+  /**
+   * Remove a rule by id. Returns false if no such rule exists.
+   */
+  async removeRule(id: string): Promise<boolean> {
+    const index = this.rules.findIndex(rule => rule.id === id);
+    if (index === -1) return false;
+
+    const [rule] = this.rules.splice(index, 1);
+    await this.persist();
+    logger.info(`Deny rule removed: ${rule.type}=${rule.value}`);
+    return true;
+  }
+
+  /**
+   * Return the first rule that denies the request (recording the denial), or null
+   */
+  check(request: DenyCheck): DenyRule | null {
+    let statementClasses: Set<StatementCategory> | undefined;
+
+    const rule = this.rules.find(candidate => {
+      if (candidate.targetId && candidate.targetId !== request.targetId) return false;
+
+      switch (candidate.type) {
+        case 'toolId':
+          return candidate.value === request.toolId;
+        case 'templateHash':
+          return candidate.value === request.templateHash;
+        case 'statementClass':
+          if (!request.statementClasses) return false;
+          statementClasses = statementClasses ?? request.statementClasses();
+          return statementClasses.has(candidate.value as StatementCategory);
+      }
+    });
+
+    if (!rule) return null;
+
+    this.denialCount++;
+    this.recentDenials.unshift({
+      timestamp: new Date().toISOString(),
+      ruleId: rule.id,
+      toolId: request.toolId ?? null,
+      templateHash: request.templateHash ?? null,
+      targetId: request.targetId,
+    });
+    this.recentDenials.length = Math.min(this.recentDenials.length, MAX_RECENT_DENIALS);
+
+    logger.warn(`Execution DENIED by local rule ${rule.type}=${rule.value} (tool: ${request.toolId ?? '-'}, target: ${request.targetId})`);
+    return rule;
+  }
+
+  getSummary(): DenyListSummary {
+    return {
+      ruleCount: this.rules.length,
+      denialCount: this.denialCount,
+      recentDenials: [...this.recentDenials],
+    };
+  }
+
+  /**
+   * Write the rules atomically (temp file + rename)
+   */
+  private async persist(): Promise<void> {
+    if (!this.listPath) return;
+
+    const tempPath = `${this.listPath}.tmp`;
+    await fs.mkdir(path.dirname(this.listPath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify({ rules: this.rules }, null, 2));
+    await fs.rename(tempPath, this.listPath);
+  }
+}
@@ -1,15 +1,58 @@
-import { SqlConfig } from '../../types/index.js';
+import { SqlConfig, SqlColumnInfo, SqlResultSet, SqlServerMessage, SqlParamType } from '../../types/index.js';
+
+// A bound value, already validated and coerced for its declared type
+export interface DbQueryParam {
+  name: string;
+  type: Exclude<SqlParamType, 'ident'>;
+  value: string | number | boolean | null;
+}
+
+// Query text with placeholders in the driver's native syntax (@p_name / $n / ?)
+export interface BoundQuery {
+  text: string;
+  params: DbQueryParam[];
+}
 
 export interface DbQueryResult {
-  columns: string[];
+  // First result set
+  columns: SqlColumnInfo[];
   rows: unknown[];
   rowCount: number;
   duration: number;
+  resultSets: SqlResultSet[];
+  messages: SqlServerMessage[];
+}
+
+export interface DbResultChunk {
+  sequence: number;
+  columns: SqlColumnInfo[];
+  rows: unknown[];
+}
+
+export interface DbStreamOptions {
+  timeout?: number;
+  signal?: AbortSignal;
+  chunkSize: number;
+  maxRows?: number;               // Undefined = no cap
+  maxBytes?: number;
+  params?: DbQueryParam[];
+  onChunk: (chunk: DbResultChunk) => Promise<void>;
+}
+
+export interface DbStreamSummary {
+  columns: SqlColumnInfo[];
+  messages: SqlServerMessage[];
+  rowCount: number;
+  bytes: number;
+  chunks: number;
+  truncated: boolean;
+  duration: number;
 }
 
 export interface IDbDriver {
   connect(config: SqlConfig): Promise<void>;
   disconnect(): Promise<void>;
-  execute(query: string, timeout?: number): Promise<DbQueryResult>;
+  execute(query: string, timeout?: number, signal?: AbortSignal, params?: DbQueryParam[]): Promise<DbQueryResult>;
+  executeStream(query: string, options: DbStreamOptions): Promise<DbStreamSummary>;
   isConnected(): boolean;
 }
@@ -1,13 +1,53 @@
 import sql from 'mssql';
-import { SqlConfig } from '../../types/index.js';
-import { IDbDriver, DbQueryResult } from './db-driver.interface.js';
+import { SqlConfig, SqlColumnInfo, SqlResultSet, SqlServerMessage } from '../../types/index.js';
+import { IDbDriver, DbQueryResult, DbQueryParam, DbStreamOptions, DbStreamSummary } from './db-driver.interface.js';
+import { ResultChunker } from './result-chunker.js';
+import { serializeRow } from './value-serializer.js';
 import { logger } from '../../utils/logger.js';
 
+// Payload of the request 'info' event
+interface MssqlInfo {
+  message: string;
+  number?: number;
+  state?: number;
+  class?: number;
+  lineNumber?: number;
+  serverName?: string;
+  procName?: string;
+}
+
+// Bound parameter type → SQL Server type
+const PARAM_SQL_TYPES: Record<DbQueryParam['type'], sql.ISqlType | (() => sql.ISqlType)> = {
+  string: sql.NVarChar(sql.MAX),
+  int: sql.BigInt,
+  number: sql.Float,
+  bool: sql.Bit,
+  date: sql.Date,
+  datetime: sql.DateTimeOffset,
+  uuid: sql.UniqueIdentifier,
+};
+
 export class MssqlDriver implements IDbDriver {
   private pool: sql.ConnectionPool | null = null;
+  // Connect in progress - concurrent callers share it instead of opening a pool each
+  private connecting: Promise<void> | null = null;
+  private readOnly = false;
 
-  async connect(config: SqlConfig): Promise<void> {
-    this.pool = await sql.connect({
+  connect(config: SqlConfig): Promise<void> {
+    this.connecting ??= this.openPool(config).finally(() => {
+      this.connecting = null;
+    });
+    return this.connecting;
+  }
+
+  private async openPool(config: SqlConfig): Promise<void> {
+    this.readOnly = config.readOnly ?? false;
+
+    // A reconnect replaces the pool - close the old one rather than leak it
+    await this.disconnect();
+
+    // Dedicated pool per driver - sql.connect() would share one global pool across targets
+    this.pool = await new sql.ConnectionPool({
       server: config.server,
       port: config.port,
       user: config.user,
@@ -16,10 +56,12 @@ export class MssqlDriver implements IDbDriver {
       options: {
         encrypt: config.options?.encrypt ?? true,
         trustServerCertificate: config.options?.trustServerCertificate ?? true,
+        // ApplicationIntent=ReadOnly - routes to a readable secondary on AGs
+        readOnlyIntent: this.readOnly,
       },
       connectionTimeout: 15000,
       requestTimeout: 30000,
-    });
+    }).connect();
     logger.info('Connected to SQL Server');
   }
 
@@ -31,31 +73,262 @@ export class MssqlDriver implements IDbDriver {
     }
   }
 
-  async execute(query: string, timeout?: number): Promise<DbQueryResult> {
+  async execute(query: string, timeout?: number, signal?: AbortSignal, params?: DbQueryParam[]): Promise<DbQueryResult> {
     if (!this.pool) {
       throw new Error('MSSQL not connected');
     }
 
     const startTime = Date.now();
-    const request = this.pool.request();
+    const transaction = await this.beginReadOnlyTransaction();
+    const request = transaction ? new sql.Request(transaction) : this.pool.request();
     if (timeout) {
       (request as unknown as { _timeout: number })._timeout = timeout;
     }
+    this.bindInputs(request, params);
+
+    // Stream mode events expose result-set boundaries and where PRINT output falls between them
+    request.stream = true;
+
+    const resultSets: SqlResultSet[] = [];
+    let current: SqlResultSet | null = null;
+    // Messages seen outside a result set belong to the next one that starts
+    let pendingMessages: SqlServerMessage[] = [];
+    let requestError: Error | null = null;
+
+    request.on('recordset', (metadata: sql.IColumnMetadata) => {
+      // Column metadata is available even when the result set is empty
+      current = { columns: this.describeColumns(metadata), rows: [], rowCount: 0, messages: pendingMessages };
+      pendingMessages = [];
+      resultSets.push(current);
+    });
+
+    request.on('row', (row: Record<string, unknown>) => {
+      if (!current) return;
+      current.rows.push(serializeRow(current.columns.map(col => row[col.name]), current.columns));
+      current.rowCount++;
+    });
+
+    // Emitted when a statement completes - closes the current result set
+    request.on('rowsaffected', () => {
+      current = null;
+    });
+
+    // PRINT and RAISERROR with severity <= 10 (including WITH NOWAIT)
+    request.on('info', (info: MssqlInfo) => {
+      (current ? current.messages : pendingMessages).push(this.toServerMessage(info));
+    });
+
+    request.on('error', (error: Error) => {
+      requestError = requestError ?? error;
+    });
+
+    const onAbort = () => request.cancel();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      // In stream mode the promise resolves after 'done'; errors arrive via the 'error' event
+      await request.query(query);
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+
+    if (transaction) {
+      await this.rollbackReadOnlyTransaction(transaction, requestError !== null);
+    }
+
+    if (requestError) {
+      throw requestError;
+    }
 
-    const result = await request.query(query);
     const duration = Date.now() - startTime;
+    const first = resultSets[0];
+
+    logger.debug(`Query executed in ${duration}ms, returned ${resultSets.length} result set(s), ${first?.rowCount ?? 0} rows in first`);
+
+    return {
+      columns: first?.columns ?? [],
+      rows: first?.rows ?? [],
+      rowCount: first?.rowCount ?? 0,
+      duration,
+      resultSets,
+      messages: pendingMessages,
+    };
+  }
+
+  async executeStream(query: string, options: DbStreamOptions): Promise<DbStreamSummary> {
+    if (!this.pool) {
+      throw new Error('MSSQL not connected');
+    }
+
+    const transaction = await this.beginReadOnlyTransaction();
+    const request = transaction ? new sql.Request(transaction) : this.pool.request();
+    if (options.timeout) {
+      (request as unknown as { _timeout: number })._timeout = options.timeout;
+    }
+    this.bindInputs(request, options.params);
+    request.stream = true;
+
+    const onAbort = () => request.cancel();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    const chunker = new ResultChunker(options);
+    let recordsetIndex = -1;
+    let streamError: Error | null = null;
+    // Serializes chunk sends; the request is paused while a chunk is in flight
+    let pending: Promise<void> = Promise.resolve();
+
+    request.on('recordset', (columns: sql.IColumnMetadata) => {
+      recordsetIndex++;
+      if (recordsetIndex === 0) {
+        chunker.columns = this.describeColumns(columns);
+      }
+    });
+
+    request.on('row', (row: Record<string, unknown>) => {
+      // Only the first result set is streamed
+      if (recordsetIndex > 0 || streamError) return;
+
+      if (!chunker.push(chunker.columns.map(col => row[col.name]))) {
+        request.cancel();
+        return;
+      }
+
+      if (chunker.isFull()) {
+        request.pause();
+        pending = pending
+          .then(() => chunker.flush())
+          .then(
+            () => { request.resume(); },
+            (error) => {
+              streamError = error instanceof Error ? error : new Error(String(error));
+              request.cancel();
+            }
+          );
+      }
+    });
+
+    request.on('info', (info: MssqlInfo) => {
+      chunker.messages.push(this.toServerMessage(info));
+    });
+
+    request.on('error', (error: Error & { code?: string }) => {
+      // Cancelling after hitting a cap is expected, not a failure
+      if (chunker.isTruncated() && error.code === 'ECANCEL') return;
+      streamError = streamError ?? error;
+    });
+
+    // In stream mode the promise resolves after 'done'; errors arrive via the 'error' event
+    try {
+      await request.query(query);
+      await pending;
+    } finally {
+      options.signal?.removeEventListener('abort', onAbort);
+    }
+
+    if (transaction) {
+      await this.rollbackReadOnlyTransaction(transaction, streamError !== null);
+    }
+
+    if (streamError) {
+      throw streamError;
+    }
+
+    await chunker.flush();
+    const summary = chunker.summary();
+
+    logger.debug(`Query streamed in ${summary.duration}ms, ${summary.rowCount} rows in ${summary.chunks} chunks${summary.truncated ? ' (truncated)' : ''}`);
+
+    return summary;
+  }
+
+  /**
+   * In read-only mode every batch runs inside a transaction that is always
+   * rolled back, so even DML/DDL that slips through leaves no trace.
+   */
+  private async beginReadOnlyTransaction(): Promise<sql.Transaction | null> {
+    if (!this.readOnly || !this.pool) return null;
+
+    const transaction = new sql.Transaction(this.pool);
+    await transaction.begin();
+    return transaction;
+  }
+
+  /**
+   * Roll back the read-only wrapper. @@TRANCOUNT is checked first: if the
+   * batch ended the transaction itself (COMMIT / ROLLBACK, possibly inside a
+   * procedure) its changes may already be committed, and a successful batch
+   * is reported as a violation instead of returning its result.
+   */
+  private async rollbackReadOnlyTransaction(transaction: sql.Transaction, batchFailed: boolean): Promise<void> {
+    let depth = 0;
+    try {
+      const result = await new sql.Request(transaction).query<{ depth: number }>('SELECT @@TRANCOUNT AS depth');
+      depth = result.recordset[0]?.depth ?? 0;
+    } catch {
+      // mssql drops a transaction the server rolled back (ROLLBACK in the batch, XACT_ABORT)
+    }
+
+    if (depth > 0) {
+      try {
+        await transaction.rollback();
+      } catch (error) {
+        // The batch's own error is the one to report
+        if (!batchFailed) throw error;
+      }
+      return;
+    }
 
-    const columns = result.recordset && result.recordset.length > 0
-      ? Object.keys(result.recordset[0])
-      : [];
+    // After a COMMIT in the batch mssql still holds the connection - release it
+    await transaction.rollback().catch(() => {});
+
+    // Errors may already have aborted the transaction - nothing left to undo
+    if (batchFailed) return;
+    logger.error('Read-only violation - the batch ended the wrapping transaction');
+    throw new Error('Read-only violation: batch ended the read-only transaction');
+  }
 
-    const rows = (result.recordset || []).map((row: Record<string, unknown>) =>
-      columns.map(col => row[col])
-    );
+  /**
+   * Declare bound parameters as request inputs (referenced as @p_name in the query)
+   */
+  private bindInputs(request: sql.Request, params?: DbQueryParam[]): void {
+    for (const param of params ?? []) {
+      let value: unknown = param.value;
+      if (value !== null && (param.type === 'date' || param.type === 'datetime')) {
+        value = new Date(param.type === 'date' ? `${value}T00:00:00Z` : String(value));
+      }
+      request.input(`p_${param.name}`, PARAM_SQL_TYPES[param.type], value);
+    }
+  }
+
+  private toServerMessage(info: MssqlInfo): SqlServerMessage {
+    return {
+      message: info.message,
+      severity: info.class,
+      number: info.number,
+      state: info.state,
+      line: info.lineNumber,
+      procedure: info.procName || undefined,
+    };
+  }
 
-    logger.debug(`Query executed in ${duration}ms, returned ${result.recordset?.length || 0} rows`);
+  private describeColumns(metadata: sql.IColumnMetadata | undefined): SqlColumnInfo[] {
+    if (!metadata) return [];
 
-    return { columns, rows, rowCount: result.recordset?.length || 0, duration };
+    return Object.values(metadata)
+      .sort((a, b) => a.index - b.index)
+      .map(col => {
+        // Type factories (sql.Int, sql.NVarChar, ...) carry their T-SQL name as `declaration`
+        const type = col.type as unknown as { declaration?: string; type?: { declaration?: string } };
+        return {
+          name: col.name,
+          ordinal: col.index,
+          dbType: type.declaration ?? type.type?.declaration ?? 'unknown',
+          nullable: col.nullable,
+          length: col.length,
+          precision: col.precision,
+          scale: col.scale,
+        };
+      });
   }
 
   isConnected(): boolean {
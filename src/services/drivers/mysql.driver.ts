@@ -0,0 +1,272 @@
+import mysql from 'mysql2/promise';
+import type { Connection as CoreConnection } from 'mysql2';
+import { SqlConfig, SqlColumnInfo } from '../../types/index.js';
+import { IDbDriver, DbQueryResult, DbQueryParam, DbStreamOptions, DbStreamSummary } from './db-driver.interface.js';
+import { ResultChunker } from './result-chunker.js';
+import { serializeRow } from './value-serializer.js';
+import { logger } from '../../utils/logger.js';
+
+// Protocol column type code → SQL type name
+const MYSQL_TYPE_NAMES: Record<number, string> = {
+  0x00: 'decimal', 0x01: 'tinyint', 0x02: 'smallint', 0x03: 'int', 0x04: 'float',
+  0x05: 'double', 0x06: 'null', 0x07: 'timestamp', 0x08: 'bigint', 0x09: 'mediumint',
+  0x0a: 'date', 0x0b: 'time', 0x0c: 'datetime', 0x0d: 'year', 0x0e: 'date',
+  0x0f: 'varchar', 0x10: 'bit', 0xf2: 'vector', 0xf5: 'json', 0xf6: 'decimal',
+  0xf7: 'enum', 0xf8: 'set', 0xf9: 'tinyblob', 0xfa: 'mediumblob', 0xfb: 'longblob',
+  0xfc: 'blob', 0xfd: 'varchar', 0xfe: 'char', 0xff: 'geometry',
+};
+
+const NOT_NULL_FLAG = 0x01;
+const UNSIGNED_FLAG = 0x20;
+const BINARY_CHARSET = 63;
+
+/**
+ * Values for the `?` placeholders of a template, or undefined if it has none.
+ * Templates with values run as server-side prepared statements (execute), so
+ * values never pass through client-side escaping into the SQL text. Integers
+ * go as strings: the binary protocol would send them as DOUBLE, which MySQL
+ * refuses in places like LIMIT ?.
+ */
+function bindValues(params?: DbQueryParam[]): Array<string | number | boolean | null> | undefined {
+  if (!params || params.length === 0) return undefined;
+  return params.map(p => (p.type === 'int' && typeof p.value === 'number' ? String(p.value) : p.value));
+}
+
+export class MysqlDriver implements IDbDriver {
+  private pool: mysql.Pool | null = null;
+  private readOnly = false;
+
+  async connect(config: SqlConfig): Promise<void> {
+    this.readOnly = config.readOnly ?? false;
+
+    const pool = mysql.createPool({
+      host: config.server,
+      port: config.port,
+      user: config.user,
+      password: config.password,
+      database: config.database || undefined,
+      ssl: this.buildSslConfig(config.options?.sslMode),
+      connectTimeout: 15000,
+      connectionLimit: 10,
+      idleTimeout: 30000,
+      // Return BIGINT values beyond Number.MAX_SAFE_INTEGER as strings
+      supportBigNumbers: true,
+    });
+
+    // Verify connection works - keep the pool only if it does
+    try {
+      const connection = await pool.getConnection();
+      connection.release();
+    } catch (error) {
+      await pool.end();
+      throw error;
+    }
+
+    this.pool = pool;
+    logger.info('Connected to MySQL');
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.pool) {
+      await this.pool.end();
+      this.pool = null;
+      logger.info('Disconnected from MySQL');
+    }
+  }
+
+  async execute(query: string, timeout?: number, signal?: AbortSignal, params?: DbQueryParam[]): Promise<DbQueryResult> {
+    if (!this.pool) {
+      throw new Error('MySQL not connected');
+    }
+
+    const startTime = Date.now();
+
+    // Dedicated connection so the query can be killed by thread id
+    const connection = await this.pool.getConnection();
+    const removeAbortListener = this.cancelOnAbort(connection.threadId, signal);
+
+    let result: mysql.QueryResult;
+    let fields: mysql.FieldPacket[];
+    try {
+      if (this.readOnly) {
+        await connection.query('START TRANSACTION READ ONLY');
+      }
+      // mysql2 enforces the timeout client-side and destroys the connection on expiry
+      const options = { sql: query, values: bindValues(params), timeout: timeout ?? 30000, rowsAsArray: true };
+      [result, fields] = options.values
+        ? await connection.execute(options)
+        : await connection.query(options);
+    } finally {
+      if (this.readOnly) {
+        // Read-only transactions are always rolled back
+        await connection.query('ROLLBACK').catch(() => { /* connection may be gone after a timeout */ });
+      }
+      removeAbortListener();
+      connection.release();
+    }
+
+    const duration = Date.now() - startTime;
+
+    // Non-SELECT statements return a ResultSetHeader instead of rows
+    if (!Array.isArray(result)) {
+      const header = result as mysql.ResultSetHeader;
+      logger.debug(`Query executed in ${duration}ms, affected ${header.affectedRows} rows`);
+      return { columns: [], rows: [], rowCount: header.affectedRows, duration, resultSets: [], messages: [] };
+    }
+
+    const columns = this.describeColumns(fields || []);
+    const rows = (result as unknown[][]).map(row => serializeRow(row, columns));
+
+    logger.debug(`Query executed in ${duration}ms, returned ${rows.length} rows`);
+
+    // multipleStatements is off, so there is always exactly one result set
+    return {
+      columns,
+      rows,
+      rowCount: rows.length,
+      duration,
+      resultSets: [{ columns, rows, rowCount: rows.length, messages: [] }],
+      messages: [],
+    };
+  }
+
+  async executeStream(query: string, options: DbStreamOptions): Promise<DbStreamSummary> {
+    if (!this.pool) {
+      throw new Error('MySQL not connected');
+    }
+
+    const connection = await this.pool.getConnection();
+    // Row events are only exposed on the callback-style connection
+    const core = connection.connection as unknown as CoreConnection;
+    const removeAbortListener = this.cancelOnAbort(connection.threadId, options.signal);
+    const chunker = new ResultChunker(options);
+
+    try {
+      if (this.readOnly) {
+        await connection.query('START TRANSACTION READ ONLY');
+      }
+
+      await new Promise<void>((resolve, reject) => {
+        let failed = false;
+        // Serializes chunk sends; the connection is paused while a chunk is in flight
+        let pending: Promise<void> = Promise.resolve();
+
+        const fail = (error: unknown) => {
+          if (failed) return;
+          failed = true;
+          reject(error);
+        };
+
+        const queryOptions = { sql: query, values: bindValues(options.params), timeout: options.timeout ?? 30000, rowsAsArray: true };
+        const command = queryOptions.values ? core.execute(queryOptions) : core.query(queryOptions);
+
+        command
+          .on('fields', (fields) => {
+            if (chunker.columns.length === 0 && Array.isArray(fields)) {
+              chunker.columns = this.describeColumns(fields);
+            }
+          })
+          .on('result', (row, index) => {
+            // Only the first result set is streamed. MySQL has no cheap way to
+            // abort a running query, so rows past a cap are drained and dropped.
+            if (failed || index > 0 || !Array.isArray(row)) return;
+            if (!chunker.push(row)) return;
+
+            if (chunker.isFull()) {
+              core.pause();
+              pending = pending
+                .then(() => chunker.flush())
+                .then(() => core.resume(), fail);
+            }
+          })
+          .on('error', fail)
+          .on('end', () => {
+            pending
+              .then(() => chunker.flush())
+              .then(() => { if (!failed) resolve(); }, fail);
+          });
+      });
+
+      if (this.readOnly) {
+        await connection.query('ROLLBACK');
+      }
+      connection.release();
+    } catch (error) {
+      // The connection may still be paused mid-result - don't hand it back to the pool
+      connection.destroy();
+      throw error;
+    } finally {
+      removeAbortListener();
+    }
+
+    const summary = chunker.summary();
+    logger.debug(`Query streamed in ${summary.duration}ms, ${summary.rowCount} rows in ${summary.chunks} chunks${summary.truncated ? ' (truncated)' : ''}`);
+
+    return summary;
+  }
+
+  private describeColumns(fields: mysql.FieldPacket[]): SqlColumnInfo[] {
+    return fields.map((field, ordinal) => {
+      const flags = typeof field.flags === 'number' ? field.flags : 0;
+      const typeCode = field.columnType ?? field.type ?? -1;
+      let dbType = MYSQL_TYPE_NAMES[typeCode] ?? `type:${typeCode}`;
+
+      // TEXT/CHAR and BLOB/BINARY share type codes; the binary charset tells them apart
+      if (field.characterSet !== BINARY_CHARSET) {
+        dbType = dbType.replace('blob', 'text');
+      } else if (dbType === 'varchar' || dbType === 'char') {
+        dbType = dbType === 'varchar' ? 'varbinary' : 'binary';
+      }
+
+      const column: SqlColumnInfo = {
+        name: field.name,
+        ordinal,
+        dbType,
+        nullable: (flags & NOT_NULL_FLAG) === 0,
+        length: field.columnLength,
+      };
+
+      if (dbType === 'decimal') {
+        // columnLength counts the sign and decimal point characters
+        const unsigned = (flags & UNSIGNED_FLAG) !== 0;
+        column.precision = (field.columnLength ?? 0) - (field.decimals > 0 ? 1 : 0) - (unsigned ? 0 : 1);
+        column.scale = field.decimals;
+      }
+
+      return column;
+    });
+  }
+
+  /**
+   * Kill the running statement on the given connection (KILL QUERY from another
+   * pooled connection) when the signal aborts. Returns a cleanup function.
+   */
+  private cancelOnAbort(threadId: number, signal?: AbortSignal): () => void {
+    if (!signal) return () => {};
+
+    const onAbort = () => {
+      this.pool?.query(`KILL QUERY ${Number(threadId)}`)
+        .catch(error => logger.warn(`Failed to kill MySQL thread ${threadId}:`, error));
+    };
+
+    signal.addEventListener('abort', onAbort, { once: true });
+    return () => signal.removeEventListener('abort', onAbort);
+  }
+
+  isConnected(): boolean {
+    return this.pool !== null;
+  }
+
+  private buildSslConfig(sslMode?: string): mysql.SslOptions | undefined {
+    switch (sslMode) {
+      case 'require':
+        return { rejectUnauthorized: false };
+      case 'verify-ca':
+      case 'verify-full':
+        return { rejectUnauthorized: true };
+      case 'disable':
+      default:
+        return undefined;
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { bindParams, coerceParamValue, quoteIdentifier, ParamBindingError } from './param-binder.js';
+import { DbType, SqlParamValue } from '../../types/index.js';
+
+describe('bindParams', () => {
+  const template = 'SELECT * FROM {{table:ident}} WHERE id = {{id:int}} AND name = {{name:string}} OR parent = {{id}}';
+
+  it.each<[DbType, string]>([
+    ['mssql', 'SELECT * FROM [dbo].[orders] WHERE id = @p_id AND name = @p_name OR parent = @p_id'],
+    ['postgres', 'SELECT * FROM "dbo"."orders" WHERE id = $1 AND name = $2 OR parent = $1'],
+    ['mysql', 'SELECT * FROM `dbo`.`orders` WHERE id = ? AND name = ? OR parent = ?'],
+  ])('writes %s placeholders', (dialect, expected) => {
+    const bound = bindParams(template, { table: 'dbo.orders', id: '42', name: "O'Brien" }, dialect);
+    expect(bound.text).toBe(expected);
+  });
+
+  it('binds each value once on SQL Server and PostgreSQL, and per use on MySQL', () => {
+    const params = { table: 't', id: 42, name: 'x' };
+    const values = (dialect: DbType) => bindParams(template, params, dialect).params.map(p => [p.name, p.value]);
+
+    expect(values('mssql')).toEqual([['id', 42], ['name', 'x']]);
+    expect(values('postgres')).toEqual([['id', 42], ['name', 'x']]);
+    expect(values('mysql')).toEqual([['id', 42], ['name', 'x'], ['id', 42]]);
+  });
+
+  it('never splices typed values into the SQL text', () => {
+    const bound = bindParams('SELECT {{name:string}}', { name: "'; DROP TABLE t; --" }, 'mssql');
+    expect(bound.text).toBe('SELECT @p_name');
+    expect(bound.params[0].value).toBe("'; DROP TABLE t; --");
+  });
+
+  it('strips everything but identifier characters from legacy placeholders', () => {
+    const bound = bindParams('SELECT * FROM {{table}}', { table: "t; DROP TABLE x --" }, 'mssql');
+    expect(bound.text).toBe('SELECT * FROM tDROPTABLEx');
+  });
+
+  it.each<[string, string, Record<string, SqlParamValue>]>([
+    ['a missing param', 'SELECT {{id:int}}', {}],
+    ['an unknown param', 'SELECT 1', { id: 1 }],
+    ['an unknown type', 'SELECT {{id:integer}}', { id: 1 }],
+    ['conflicting types', 'SELECT {{id:int}}, {{id:string}}', { id: 1 }],
+    ['an invalid value', 'SELECT {{id:int}}', { id: '1; DROP TABLE t' }],
+    ['a placeholder named after an Object.prototype property', 'SELECT {{constructor:string}}', {}],
+    ['a legacy placeholder named after an Object.prototype property', 'SELECT {{toString}}', {}],
+  ])('rejects %s', (_case, sql, params) => {
+    expect(() => bindParams(sql, params, 'postgres')).toThrow(ParamBindingError);
+  });
+});
+
+describe('quoteIdentifier', () => {
+  it.each<[DbType, string, string]>([
+    ['mssql', 'dbo.weird]name', '[dbo].[weird]]name]'],
+    ['postgres', 'public."quoted"', '"public"."""quoted"""'],
+    ['mysql', 'db.back`tick', '`db`.`back``tick`'],
+  ])('escapes the %s quote character', (dialect, value, expected) => {
+    expect(quoteIdentifier('table', value, dialect)).toBe(expected);
+  });
+
+  it.each<[string, SqlParamValue]>([
+    ['empty', ''],
+    ['not a string', 1],
+    ['too many parts', 'a.b.c.d'],
+    ['an empty part', 'dbo..t'],
+    ['a control character', 'ta\nble'],
+    ['too long', 'x'.repeat(129)],
+  ])('rejects an identifier that is %s', (_case, value) => {
+    expect(() => quoteIdentifier('table', value, 'mssql')).toThrow(ParamBindingError);
+  });
+});
+
+describe('coerceParamValue', () => {
+  it.each<[Parameters<typeof coerceParamValue>[1], SqlParamValue, unknown]>([
+    ['int', ' 42 ', 42],
+    ['number', '1.5', 1.5],
+    ['bool', 'false', false],
+    ['bool', 1, true],
+    ['date', '2024-02-29', '2024-02-29'],
+    ['datetime', '2024-02-29T10:00:00Z', '2024-02-29T10:00:00Z'],
+    ['uuid', '6F1C2B1E-8D6A-4C3E-9A4B-2F1D0C9E8B7A', '6f1c2b1e-8d6a-4c3e-9a4b-2f1d0c9e8b7a'],
+    ['string', null, null],
+  ])('normalizes a %s (%j)', (type, value, expected) => {
+    expect(coerceParamValue('p', type, value)).toEqual(expected);
+  });
+
+  it.each<[Parameters<typeof coerceParamValue>[1], SqlParamValue]>([
+    ['int', '9007199254740993'],
+    ['int', 1.5],
+    ['number', true],
+    ['number', ''],
+    ['bool', 'yes'],
+    ['date', '2024-13-01'],
+    ['datetime', 'yesterday'],
+    ['uuid', '6f1c2b1e'],
+    ['string', 1],
+  ])('rejects an invalid %s (%j)', (type, value) => {
+    expect(() => coerceParamValue('p', type, value)).toThrow(ParamBindingError);
+  });
+});
@@ -0,0 +1,213 @@
+import { DbType, SqlParamType, SqlParamValue } from '../../types/index.js';
+import { BoundQuery, DbQueryParam } from './db-driver.interface.js';
+
+/**
+ * Template parameter binding.
+ *
+ * Placeholders are written {{name:type}}. Identifiers ({{name:ident}}) are
+ * quoted for the dialect and spliced into the SQL text; every other type is
+ * validated and sent as a bound parameter - @p_name on SQL Server, $n on
+ * PostgreSQL, ? on MySQL. Bare {{name}} placeholders keep the legacy
+ * sanitized text substitution so existing catalog templates still run.
+ */
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*(?::\s*([A-Za-z]+)\s*)?\}\}/g;
+
+const PARAM_TYPES = new Set<SqlParamType>(['ident', 'string', 'int', 'number', 'bool', 'date', 'datetime', 'uuid']);
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d{1,9})?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// SQL Server sysname length; also covers PostgreSQL (63) and MySQL (64)
+const MAX_IDENTIFIER_LENGTH = 128;
+
+/**
+ * Error thrown when a template's placeholders and the supplied params don't line up
+ */
+export class ParamBindingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ParamBindingError';
+  }
+}
+
+// 'legacy' marks a bare {{name}} placeholder
+type PlaceholderType = SqlParamType | 'legacy';
+
+/**
+ * Bind params into a template for the given dialect.
+ * Throws ParamBindingError for missing, extra or invalid params.
+ */
+export function bindParams(
+  template: string,
+  params: Record<string, SqlParamValue>,
+  dialect: DbType
+): BoundQuery {
+  const declared = collectPlaceholders(template);
+
+  for (const name of Object.keys(params)) {
+    if (!declared.has(name)) {
+      throw new ParamBindingError(`Unknown parameter: ${name}`);
+    }
+  }
+
+  const values = new Map<string, DbQueryParam['value']>();
+  for (const [name, type] of declared) {
+    // Own properties only - {{constructor:...}} must not resolve to Object.prototype
+    if (!Object.hasOwn(params, name)) {
+      throw new ParamBindingError(`Missing parameter: ${name}`);
+    }
+    if (type !== 'ident' && type !== 'legacy') {
+      values.set(name, coerceParamValue(name, type, params[name]));
+    }
+  }
+
+  const bound: DbQueryParam[] = [];
+  const positions = new Map<string, number>();    // PostgreSQL: name → $n
+
+  const text = template.replace(PLACEHOLDER_PATTERN, (_match, name: string) => {
+    const type = declared.get(name)!;
+
+    if (type === 'legacy') {
+      return sanitizeLegacyValue(params[name]);
+    }
+    if (type === 'ident') {
+      return quoteIdentifier(name, params[name], dialect);
+    }
+
+    const param: DbQueryParam = { name, type, value: values.get(name) ?? null };
+    switch (dialect) {
+      case 'mssql':
+        if (!positions.has(name)) {
+          positions.set(name, bound.length);
+          bound.push(param);
+        }
+        return `@p_${name}`;
+      case 'postgres':
+        if (!positions.has(name)) {
+          bound.push(param);
+          positions.set(name, bound.length);
+        }
+        return `$${positions.get(name)}`;
+      case 'mysql':
+        // Positional - a repeated placeholder needs its value again
+        bound.push(param);
+        return '?';
+    }
+  });
+
+  return { text, params: bound };
+}
+
+/**
+ * Collect placeholder names and their declared types. A name used more than
+ * once must be declared with the same type each time (a bare repeat is fine).
+ */
+function collectPlaceholders(template: string): Map<string, PlaceholderType> {
+  const declared = new Map<string, PlaceholderType>();
+
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    const name = match[1];
+    const rawType = match[2]?.toLowerCase();
+
+    if (rawType !== undefined && !PARAM_TYPES.has(rawType as SqlParamType)) {
+      throw new ParamBindingError(`Unknown type '${rawType}' for parameter ${name}`);
+    }
+
+    const type: PlaceholderType = (rawType as SqlParamType | undefined) ?? 'legacy';
+    const previous = declared.get(name);
+    if (previous === undefined || previous === 'legacy') {
+      declared.set(name, type);
+    } else if (type !== 'legacy' && type !== previous) {
+      throw new ParamBindingError(`Parameter ${name} is declared as both ${previous} and ${type}`);
+    }
+  }
+
+  return declared;
+}
+
+/**
+ * Validate a value against its declared type and normalize it for the drivers
+ */
+export function coerceParamValue(name: string, type: Exclude<SqlParamType, 'ident'>, value: SqlParamValue): DbQueryParam['value'] {
+  if (value === null) {
+    return null;
+  }
+
+  const invalid = () => new ParamBindingError(`Parameter ${name} is not a valid ${type}: ${JSON.stringify(value)}`);
+  const text = typeof value === 'string' ? value.trim() : '';
+
+  switch (type) {
+    case 'string':
+      if (typeof value !== 'string') throw invalid();
+      return value;
+
+    case 'int': {
+      const parsed = typeof value === 'number' ? value : /^-?\d+$/.test(text) ? Number(text) : NaN;
+      if (!Number.isSafeInteger(parsed)) throw invalid();
+      return parsed;
+    }
+
+    case 'number': {
+      const parsed = typeof value === 'number' ? value : text === '' ? NaN : Number(text);
+      if (typeof value === 'boolean' || !Number.isFinite(parsed)) throw invalid();
+      return parsed;
+    }
+
+    case 'bool':
+      if (typeof value === 'boolean') return value;
+      if (value === 1 || text === 'true' || text === '1') return true;
+      if (value === 0 || text === 'false' || text === '0') return false;
+      throw invalid();
+
+    case 'date':
+      if (!DATE_PATTERN.test(text) || Number.isNaN(Date.parse(`${text}T00:00:00Z`))) throw invalid();
+      return text;
+
+    case 'datetime':
+      if (!DATETIME_PATTERN.test(text) || Number.isNaN(Date.parse(text))) throw invalid();
+      return text;
+
+    case 'uuid':
+      if (!UUID_PATTERN.test(text)) throw invalid();
+      return text.toLowerCase();
+  }
+}
+
+/**
+ * Quote a (possibly schema-qualified) identifier for the dialect.
+ * Dots separate name parts; each part is quoted on its own.
+ */
+export function quoteIdentifier(name: string, value: SqlParamValue, dialect: DbType): string {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new ParamBindingError(`Parameter ${name} must be a non-empty identifier`);
+  }
+
+  const parts = value.trim().split('.');
+  if (parts.length > 3) {
+    throw new ParamBindingError(`Parameter ${name} has too many name parts: ${value}`);
+  }
+
+  return parts.map(part => {
+    if (part === '' || part.length > MAX_IDENTIFIER_LENGTH || /[\u0000-\u001f]/.test(part)) {
+      throw new ParamBindingError(`Parameter ${name} is not a valid identifier: ${value}`);
+    }
+    switch (dialect) {
+      case 'mssql':
+        return `[${part.replace(/]/g, ']]')}]`;
+      case 'postgres':
+        return `"${part.replace(/"/g, '""')}"`;
+      case 'mysql':
+        return `\`${part.replace(/`/g, '``')}\``;
+    }
+  }).join('.');
+}
+
+/**
+ * Legacy substitution for bare {{name}} placeholders.
+ * Only allows: alphanumeric, underscore, dot, brackets (must match server-side sanitization).
+ */
+function sanitizeLegacyValue(value: SqlParamValue): string {
+  return String(value ?? '').replace(/[^a-zA-Z0-9_.\[\]]/g, '');
+}
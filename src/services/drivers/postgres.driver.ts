@@ -1,13 +1,34 @@
+import { EventEmitter } from 'events';
 import pg from 'pg';
-import { SqlConfig } from '../../types/index.js';
-import { IDbDriver, DbQueryResult } from './db-driver.interface.js';
+import Cursor from 'pg-cursor';
+import { SqlConfig, SqlColumnInfo, SqlResultSet, SqlServerMessage } from '../../types/index.js';
+import { IDbDriver, DbQueryResult, DbQueryParam, DbStreamOptions, DbStreamSummary } from './db-driver.interface.js';
+import { ResultChunker } from './result-chunker.js';
+import { serializeRow } from './value-serializer.js';
 import { logger } from '../../utils/logger.js';
 
+// Built-in type OID → type name (e.g. 20 → 'int8')
+const PG_TYPE_NAMES = new Map<number, string>(
+  Object.entries(pg.types.builtins).map(([name, oid]) => [oid as number, name.toLowerCase()])
+);
+
+// NoticeResponse fields (RAISE NOTICE / WARNING / INFO)
+interface PgNotice {
+  message?: string;
+  severity?: string;
+  code?: string;
+  detail?: string;
+  hint?: string;
+  where?: string;
+}
+
 export class PostgresDriver implements IDbDriver {
   private pool: pg.Pool | null = null;
+  private readOnly = false;
 
   async connect(config: SqlConfig): Promise<void> {
     const ssl = this.buildSslConfig(config.options?.sslMode);
+    this.readOnly = config.readOnly ?? false;
 
     this.pool = new pg.Pool({
       host: config.server,
@@ -20,6 +41,8 @@ export class PostgresDriver implements IDbDriver {
       query_timeout: 30000,
       max: 10,
       idleTimeoutMillis: 30000,
+      // Session default as a second line of defence behind BEGIN READ ONLY
+      options: this.readOnly ? '-c default_transaction_read_only=on' : undefined,
     });
 
     // Verify connection works
@@ -36,7 +59,7 @@ export class PostgresDriver implements IDbDriver {
     }
   }
 
-  async execute(query: string, timeout?: number): Promise<DbQueryResult> {
+  async execute(query: string, timeout?: number, signal?: AbortSignal, params?: DbQueryParam[]): Promise<DbQueryResult> {
     if (!this.pool) {
       throw new Error('PostgreSQL not connected');
     }
@@ -44,49 +67,244 @@ export class PostgresDriver implements IDbDriver {
     const startTime = Date.now();
 
     // Use a dedicated client for per-query timeout support.
-    // SET LOCAL requires an explicit transaction to take effect.
-    // Avoids multi-statement queries which can return wrong result set.
+    // SET LOCAL requires an explicit transaction to take effect, and is kept
+    // out of the user query so it doesn't show up as an extra result.
     const client = await this.pool.connect();
+    const removeAbortListener = this.cancelOnAbort(client, signal);
+    let inTransaction = false;
     try {
-      if (timeout) {
-        await client.query('BEGIN');
-        await client.query(`SET LOCAL statement_timeout = '${timeout}ms'`);
-      }
+      inTransaction = await this.beginTransaction(client, timeout);
 
-      const result = await client.query(query);
+      // Track statement completion so each NOTICE can be tied to the statement that raised it
+      const notices: { statementIndex: number; message: SqlServerMessage }[] = [];
+      let completedStatements = 0;
+      const connection = (client as unknown as { connection: EventEmitter }).connection;
+      const onCommandComplete = () => { completedStatements++; };
+      const onNotice = (notice: PgNotice) => {
+        notices.push({ statementIndex: completedStatements, message: this.toServerMessage(notice) });
+      };
 
-      if (timeout) {
-        await client.query('COMMIT');
-      }
+      connection.on('commandComplete', onCommandComplete);
+      client.on('notice', onNotice);
 
-      const duration = Date.now() - startTime;
+      // Multi-statement queries resolve to one result per statement
+      let results: pg.QueryResult<unknown[]>[];
+      try {
+        // Read-only mode uses the extended protocol, which accepts a single
+        // statement only - a batch can't COMMIT its way out of the read-only transaction.
+        // Bound parameters ($1, $2, ...) always go through the extended protocol.
+        const result = await client.query<unknown[]>({
+          text: query,
+          values: params?.map(p => p.value),
+          rowMode: 'array',
+          ...(this.readOnly ? { queryMode: 'extended' } : {}),
+        } as pg.QueryArrayConfig);
+        results = Array.isArray(result) ? result : [result];
+      } finally {
+        connection.off('commandComplete', onCommandComplete);
+        client.off('notice', onNotice);
+      }
 
-      const columns = result.fields
-        ? result.fields.map(f => f.name)
-        : [];
+      if (inTransaction) {
+        await this.endTransaction(client);
+      }
 
-      const rows = (result.rows || []).map((row: Record<string, unknown>) =>
-        columns.map(col => row[col])
-      );
+      const duration = Date.now() - startTime;
+      const { resultSets, messages } = this.buildResultSets(results, notices);
+      const first = resultSets[0];
 
-      logger.debug(`Query executed in ${duration}ms, returned ${result.rowCount ?? 0} rows`);
+      logger.debug(`Query executed in ${duration}ms, returned ${resultSets.length} result set(s), ${first?.rowCount ?? 0} rows in first`);
 
       return {
-        columns,
-        rows,
-        rowCount: result.rowCount ?? 0,
+        columns: first?.columns ?? [],
+        rows: first?.rows ?? [],
+        rowCount: first?.rowCount ?? results[0]?.rowCount ?? 0,
         duration,
+        resultSets,
+        messages,
       };
     } catch (error) {
-      if (timeout) {
+      if (inTransaction) {
         try { await client.query('ROLLBACK'); } catch { /* ignore rollback errors */ }
       }
       throw error;
     } finally {
+      removeAbortListener();
       client.release();
     }
   }
 
+  async executeStream(query: string, options: DbStreamOptions): Promise<DbStreamSummary> {
+    if (!this.pool) {
+      throw new Error('PostgreSQL not connected');
+    }
+
+    const client = await this.pool.connect();
+    const removeAbortListener = this.cancelOnAbort(client, options.signal);
+    const chunker = new ResultChunker(options);
+    let inTransaction = false;
+
+    try {
+      inTransaction = await this.beginTransaction(client, options.timeout);
+
+      const onNotice = (notice: PgNotice) => {
+        chunker.messages.push(this.toServerMessage(notice));
+      };
+      client.on('notice', onNotice);
+
+      const cursor = client.query(new Cursor<unknown[]>(query, options.params?.map(p => p.value), { rowMode: 'array' }));
+
+      try {
+        // Each read fetches one chunk; stop early once a cap is hit
+        while (!chunker.isTruncated()) {
+          const { rows, fields } = await this.readCursor(cursor, options.chunkSize);
+          if (chunker.columns.length === 0) {
+            chunker.columns = this.describeColumns(fields);
+          }
+          if (rows.length === 0) break;
+
+          for (const row of rows) {
+            if (!chunker.push(row)) break;
+          }
+          await chunker.flush();
+        }
+      } finally {
+        await cursor.close();
+        client.off('notice', onNotice);
+      }
+
+      if (inTransaction) {
+        await this.endTransaction(client);
+      }
+
+      const summary = chunker.summary();
+      logger.debug(`Query streamed in ${summary.duration}ms, ${summary.rowCount} rows in ${summary.chunks} chunks${summary.truncated ? ' (truncated)' : ''}`);
+
+      return summary;
+    } catch (error) {
+      if (inTransaction) {
+        try { await client.query('ROLLBACK'); } catch { /* ignore rollback errors */ }
+      }
+      throw error;
+    } finally {
+      removeAbortListener();
+      client.release();
+    }
+  }
+
+  /**
+   * Open the wrapping transaction when a timeout or read-only mode needs one.
+   * Returns true if a transaction was started.
+   */
+  private async beginTransaction(client: pg.PoolClient, timeout?: number): Promise<boolean> {
+    if (!timeout && !this.readOnly) return false;
+
+    await client.query(this.readOnly ? 'BEGIN TRANSACTION READ ONLY' : 'BEGIN');
+    if (timeout) {
+      await client.query(`SET LOCAL statement_timeout = '${timeout}ms'`);
+    }
+    return true;
+  }
+
+  // Read-only transactions are always rolled back
+  private async endTransaction(client: pg.PoolClient): Promise<void> {
+    await client.query(this.readOnly ? 'ROLLBACK' : 'COMMIT');
+  }
+
+  private toServerMessage(notice: PgNotice): SqlServerMessage {
+    return {
+      message: notice.message ?? '',
+      severity: notice.severity,
+      state: notice.code,
+      detail: notice.detail,
+      hint: notice.hint,
+      where: notice.where,
+    };
+  }
+
+  /**
+   * Turn per-statement results into result sets. Statements without a row
+   * description (INSERT, SET, ...) don't produce a set; their notices carry
+   * over to the next set, and notices after the last set are returned separately.
+   */
+  private buildResultSets(
+    results: pg.QueryResult<unknown[]>[],
+    notices: { statementIndex: number; message: SqlServerMessage }[]
+  ): { resultSets: SqlResultSet[]; messages: SqlServerMessage[] } {
+    const resultSets: SqlResultSet[] = [];
+    let pending: SqlServerMessage[] = [];
+    let noticeIndex = 0;
+
+    results.forEach((result, statementIndex) => {
+      while (noticeIndex < notices.length && notices[noticeIndex].statementIndex <= statementIndex) {
+        pending.push(notices[noticeIndex++].message);
+      }
+
+      if (!result.fields || result.fields.length === 0) return;
+
+      const columns = this.describeColumns(result.fields);
+      resultSets.push({
+        columns,
+        rows: (result.rows || []).map(row => serializeRow(row, columns)),
+        rowCount: result.rows?.length ?? 0,
+        messages: pending,
+      });
+      pending = [];
+    });
+
+    pending.push(...notices.slice(noticeIndex).map(n => n.message));
+    return { resultSets, messages: pending };
+  }
+
+  /**
+   * Cancel the client's running statement (pg_cancel_backend from another
+   * pooled connection) when the signal aborts. Returns a cleanup function.
+   */
+  private cancelOnAbort(client: pg.PoolClient, signal?: AbortSignal): () => void {
+    if (!signal) return () => {};
+
+    const pid = (client as unknown as { processID: number }).processID;
+    const onAbort = () => {
+      this.pool?.query('SELECT pg_cancel_backend($1)', [pid])
+        .catch(error => logger.warn(`Failed to cancel PostgreSQL backend ${pid}:`, error));
+    };
+
+    signal.addEventListener('abort', onAbort, { once: true });
+    return () => signal.removeEventListener('abort', onAbort);
+  }
+
+  /**
+   * Build column descriptors from RowDescription fields. The wire protocol
+   * doesn't report nullability; length/precision/scale come from the type modifier.
+   */
+  private describeColumns(fields: pg.FieldDef[]): SqlColumnInfo[] {
+    return fields.map((field, ordinal) => {
+      const dbType = PG_TYPE_NAMES.get(field.dataTypeID) ?? `oid:${field.dataTypeID}`;
+      const column: SqlColumnInfo = { name: field.name, ordinal, dbType, nullable: null };
+
+      const typmod = field.dataTypeModifier - 4;
+      if (typmod >= 0) {
+        if (dbType === 'numeric') {
+          column.precision = (typmod >> 16) & 0xffff;
+          column.scale = typmod & 0xffff;
+        } else if (dbType === 'varchar' || dbType === 'bpchar') {
+          column.length = typmod;
+        }
+      }
+
+      return column;
+    });
+  }
+
+  private readCursor(cursor: Cursor<unknown[]>, maxRows: number): Promise<{ rows: unknown[][]; fields: pg.FieldDef[] }> {
+    return new Promise((resolve, reject) => {
+      cursor.read(maxRows, (error, rows, result) => {
+        if (error) return reject(error);
+        resolve({ rows, fields: result?.fields ?? [] });
+      });
+    });
+  }
+
   isConnected(): boolean {
     return this.pool !== null && (this.pool as unknown as { ending?: boolean }).ending !== true;
   }
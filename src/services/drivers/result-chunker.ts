@@ -0,0 +1,109 @@
+import { SqlColumnInfo, SqlResultSet, SqlServerMessage } from '../../types/index.js';
+import { DbStreamOptions, DbStreamSummary } from './db-driver.interface.js';
+import { serializeRow } from './value-serializer.js';
+
+/**
+ * Buffers streamed rows into chunks and enforces the max-rows / max-bytes caps.
+ * Shared by all drivers so truncation behaves identically regardless of database.
+ */
+export class ResultChunker {
+  columns: SqlColumnInfo[] = [];
+  messages: SqlServerMessage[] = [];
+  private buffer: unknown[] = [];
+  private rowCount = 0;
+  private bytes = 0;
+  private chunks = 0;
+  private truncated = false;
+  private readonly startTime = Date.now();
+
+  constructor(private options: DbStreamOptions) {}
+
+  /**
+   * Serialize a row and add it to the current chunk.
+   * Returns false once a cap has been reached - the row is dropped and the
+   * driver should stop reading.
+   */
+  push(row: unknown[]): boolean {
+    if (this.truncated) return false;
+
+    const values = serializeRow(row, this.columns);
+    const size = Buffer.byteLength(JSON.stringify(values));
+    const { maxRows, maxBytes } = this.options;
+
+    if ((maxRows && this.rowCount >= maxRows) || (maxBytes && this.bytes + size > maxBytes)) {
+      this.truncated = true;
+      return false;
+    }
+
+    this.buffer.push(values);
+    this.rowCount++;
+    this.bytes += size;
+    return true;
+  }
+
+  isTruncated(): boolean {
+    return this.truncated;
+  }
+
+  isFull(): boolean {
+    return this.buffer.length >= this.options.chunkSize;
+  }
+
+  /**
+   * Send buffered rows (if any) as the next chunk
+   */
+  async flush(): Promise<void> {
+    if (this.buffer.length === 0) return;
+
+    const rows = this.buffer;
+    this.buffer = [];
+    await this.options.onChunk({ sequence: this.chunks++, columns: this.columns, rows });
+  }
+
+  summary(): DbStreamSummary {
+    return {
+      columns: this.columns,
+      messages: this.messages,
+      rowCount: this.rowCount,
+      bytes: this.bytes,
+      chunks: this.chunks,
+      truncated: this.truncated,
+      duration: Date.now() - this.startTime,
+    };
+  }
+}
+
+/**
+ * Apply the max-rows / max-bytes caps to a buffered (non-streamed) result.
+ * The caps count across all result sets in batch order, as a stream would;
+ * sets past the cap keep their columns but no rows.
+ */
+export function capResultSets(
+  resultSets: SqlResultSet[],
+  maxRows?: number,
+  maxBytes?: number
+): { resultSets: SqlResultSet[]; truncated: boolean } {
+  let rowCount = 0;
+  let bytes = 0;
+  let truncated = false;
+
+  const capped = resultSets.map(set => {
+    if (truncated) return { ...set, rows: [], rowCount: 0 };
+
+    const rows: unknown[] = [];
+    for (const row of set.rows) {
+      const size = maxBytes ? Buffer.byteLength(JSON.stringify(row)) : 0;
+      if ((maxRows && rowCount >= maxRows) || (maxBytes && bytes + size > maxBytes)) {
+        truncated = true;
+        break;
+      }
+      rows.push(row);
+      rowCount++;
+      bytes += size;
+    }
+
+    return truncated ? { ...set, rows, rowCount: rows.length } : set;
+  });
+
+  return { resultSets: capped, truncated };
+}
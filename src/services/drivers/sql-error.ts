@@ -0,0 +1,110 @@
+import { SqlErrorInfo } from '../../types/index.js';
+
+/**
+ * Driver error shapes we know how to read:
+ * - mssql RequestError: number, state, class, lineNumber, procName, serverName
+ * - pg DatabaseError: code (SQLSTATE), severity, detail, hint, position, where, ...
+ * - mysql2 QueryError: code, errno, sqlState
+ */
+interface DriverError {
+  message?: string;
+  code?: string | number;
+  number?: number;
+  state?: number;
+  class?: number;
+  lineNumber?: number;
+  procName?: string;
+  serverName?: string;
+  errno?: number;
+  sqlState?: string;
+  severity?: string;
+  detail?: string;
+  hint?: string;
+  position?: string;
+  where?: string;
+  schema?: string;
+  table?: string;
+  column?: string;
+  constraint?: string;
+  originalError?: DriverError & { info?: DriverError };
+}
+
+// PostgreSQL reports SQLSTATE in `code` (5 alphanumeric characters)
+const SQLSTATE_PATTERN = /^[0-9A-Z]{5}$/;
+
+/**
+ * Extract structured fields from a database driver error.
+ * Unknown errors yield just the message.
+ */
+export function describeSqlError(error: unknown): SqlErrorInfo {
+  if (!(error instanceof Error)) {
+    return { message: String(error) };
+  }
+
+  const e = error as Error & DriverError;
+  // mssql keeps server fields on the wrapped tedious error in some code paths
+  const info = e.originalError?.info ?? e.originalError ?? {};
+  const isPostgres = typeof e.code === 'string' && SQLSTATE_PATTERN.test(e.code) && e.severity !== undefined;
+
+  const details: SqlErrorInfo = {
+    message: e.message,
+    code: typeof e.code === 'string' && !isPostgres ? e.code : undefined,
+    number: e.number ?? info.number ?? e.errno,
+    state: e.state ?? info.state,
+    class: e.class ?? info.class,
+    procedure: e.procName ?? info.procName,
+    line: e.lineNumber ?? info.lineNumber,
+    serverName: e.serverName ?? info.serverName,
+    sqlState: isPostgres ? e.code as string : e.sqlState,
+    severity: e.severity,
+    detail: e.detail,
+    hint: e.hint,
+    position: e.position ? parseInt(e.position, 10) : undefined,
+    where: e.where,
+    schema: e.schema,
+    table: e.table,
+    column: e.column,
+    constraint: e.constraint,
+  };
+
+  // Drop empty fields to keep responses compact
+  for (const key of Object.keys(details) as (keyof SqlErrorInfo)[]) {
+    if (details[key] === undefined || details[key] === '') {
+      delete details[key];
+    }
+  }
+
+  return details;
+}
+
+// Driver/socket codes for an unreachable, overloaded or timed-out database
+const TRANSIENT_CODES = new Set([
+  // mssql (tedious)
+  'ETIMEOUT', 'ESOCKET', 'ECONNCLOSED', 'ELOGIN',
+  // Node sockets
+  'ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'EHOSTUNREACH', 'ENOTFOUND', 'EPIPE',
+  // mysql2
+  'PROTOCOL_CONNECTION_LOST', 'PROTOCOL_SEQUENCE_TIMEOUT', 'ER_CON_COUNT_ERROR', 'ER_TOO_MANY_USER_CONNECTIONS',
+]);
+
+// SQLSTATE classes: 08 connection exception, 53 insufficient resources,
+// 57 operator intervention (statement timeout, admin shutdown)
+const TRANSIENT_SQLSTATE_CLASSES = new Set(['08', '53', '57']);
+
+/**
+ * Whether an error means the database is unavailable or under pressure, as
+ * opposed to a problem with the query itself (syntax, permissions, constraints).
+ */
+export function isTransientSqlError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+
+  const e = error as Error & DriverError;
+  const code = typeof e.code === 'string' ? e.code : undefined;
+
+  if (code && TRANSIENT_CODES.has(code)) return true;
+  if (code && SQLSTATE_PATTERN.test(code) && TRANSIENT_SQLSTATE_CLASSES.has(code.substring(0, 2))) return true;
+  if (e.sqlState && TRANSIENT_SQLSTATE_CLASSES.has(e.sqlState.substring(0, 2))) return true;
+
+  // Client-side timeouts without a code (pg "Query read timeout", mysql2 "Query inactivity timeout")
+  return /timeout/i.test(e.message);
+}
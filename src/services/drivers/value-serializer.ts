@@ -0,0 +1,36 @@
+import { SqlColumnInfo } from '../../types/index.js';
+
+// Exact numeric types some drivers hand back as JS numbers - always sent as strings
+const EXACT_NUMERIC_TYPES = new Set([
+  'bigint', 'int8', 'decimal', 'numeric', 'money', 'smallmoney',
+]);
+
+/**
+ * Convert a driver value into its wire representation so every database
+ * serializes the same way:
+ * - bigint / DECIMAL / NUMERIC / MONEY → string (no precision loss)
+ * - Date → ISO 8601 string
+ * - Buffer / binary → hex string with 0x prefix
+ */
+export function serializeValue(value: unknown, column?: SqlColumnInfo): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value.toISOString();
+  }
+  if (value instanceof Uint8Array) {
+    return `0x${Buffer.from(value).toString('hex')}`;
+  }
+  if (typeof value === 'number' && column && EXACT_NUMERIC_TYPES.has(column.dbType)) {
+    return String(value);
+  }
+  return value;
+}
+
+export function serializeRow(row: unknown[], columns: SqlColumnInfo[]): unknown[] {
+  return row.map((value, index) => serializeValue(value, columns[index]));
+}
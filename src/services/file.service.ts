@@ -5,7 +5,7 @@ import { watch } from 'chokidar';
 import { FolderTree, MdFile, FileInfo } from '../types/index.js';
 import { logger } from '../utils/logger.js';
 
-const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 
 export class FileService {
   private basePath: string;
@@ -22,6 +22,7 @@ export class FileService {
     const fullPath = path.resolve(this.basePath, relativePath);
 
     if (!fullPath.startsWith(this.basePath)) {
+      logger.warn(`Rejected path outside project directory: ${relativePath}`);
       throw new Error('Access denied: path outside project directory');
     }
 
@@ -186,6 +187,7 @@ export class FileService {
       }
     }
 
+    logger.debug(`Search /${pattern}/ (${glob}) matched ${results.length} file(s)`);
     return results;
   }
 
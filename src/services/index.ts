@@ -1,4 +1,12 @@
-export { SqlService } from './sql.service.js';
+export { SqlService, QueryCancelledError } from './sql.service.js';
 export { FileService } from './file.service.js';
 export { WebSocketService } from './websocket.service.js';
 export { AllowlistService, AllowlistValidationError } from './allowlist.service.js';
+export { StatementPolicyService, StatementPolicyError } from './statement-policy.service.js';
+export { KeyringService, KeyringError } from './keyring.service.js';
+export { DenyListService, DenyRuleError } from './deny-list.service.js';
+export { AuditLogService } from './audit-log.service.js';
+export { ConcurrencyLimiter, AgentBusyError } from './concurrency-limiter.js';
+export { CircuitBreaker, QueryBudget, SqlUnavailableError } from './circuit-breaker.js';
+export { PayloadValidationError } from './message-validator.js';
+export { MessageCodec } from './message-codec.js';
@@ -0,0 +1,138 @@
+import crypto, { KeyObject } from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { KeyringService, KeyringError, ROOT_KEY_ID } from './keyring.service.js';
+import { canonicalJson } from '../utils/canonical-json.js';
+import { KeyringUpdate, TrustedKey } from '../types/index.js';
+
+function keyPair(): { publicKey: string; privateKey: KeyObject } {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  return { publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(), privateKey };
+}
+
+const root = keyPair();
+const rotated = keyPair();
+const other = keyPair();
+
+const HOUR = 60 * 60 * 1000;
+
+function sign(content: string, privateKey: KeyObject): string {
+  return crypto.sign('SHA256', Buffer.from(content), privateKey).toString('base64');
+}
+
+/**
+ * A keyring update signed by the root key unless another signer is given
+ */
+function signedUpdate(
+  fields: Partial<Omit<KeyringUpdate, 'signature'>>,
+  signer: KeyObject = root.privateKey
+): KeyringUpdate {
+  const content: Omit<KeyringUpdate, 'signature'> = { version: 1, issued_at: new Date().toISOString(), ...fields };
+  return { ...content, signature: sign(canonicalJson(content), signer) };
+}
+
+function trustedKey(fields: Partial<TrustedKey> = {}): TrustedKey {
+  return { key_id: 'k2', public_key: rotated.publicKey, ...fields };
+}
+
+/**
+ * Expect the promise to reject with a KeyringError with the given code
+ */
+async function expectCode(promise: Promise<unknown>, code: KeyringError['code']): Promise<void> {
+  const error = await promise.then(() => null, (rejection: unknown) => rejection);
+  expect(error).toBeInstanceOf(KeyringError);
+  expect((error as KeyringError).code).toBe(code);
+}
+
+describe('KeyringService', () => {
+  let keyring: KeyringService;
+
+  beforeEach(() => {
+    keyring = new KeyringService(root.publicKey);
+  });
+
+  it('verifies signatures made by the root key', () => {
+    expect(keyring.verify('catalog', sign('catalog', root.privateKey))).toBe(true);
+    expect(keyring.verify('catalog', sign('catalog', root.privateKey), ROOT_KEY_ID)).toBe(true);
+    expect(keyring.verify('tampered', sign('catalog', root.privateKey))).toBe(false);
+    expect(keyring.verify('catalog', sign('catalog', other.privateKey))).toBe(false);
+  });
+
+  it('trusts a key added by a root-signed update until it is retired', async () => {
+    const signature = sign('catalog', rotated.privateKey);
+    expect(keyring.verify('catalog', signature, 'k2')).toBe(false);
+
+    await keyring.applyUpdate(signedUpdate({ version: 1, add: [trustedKey()] }));
+    expect(keyring.verify('catalog', signature, 'k2')).toBe(true);
+    // A key only vouches for its own signatures
+    expect(keyring.verify('catalog', signature)).toBe(false);
+
+    await keyring.applyUpdate(signedUpdate({ version: 2, retire: ['k2'] }));
+    expect(keyring.verify('catalog', signature, 'k2')).toBe(false);
+    expect(keyring.getStatus()).toEqual({ version: 2, keys: [] });
+  });
+
+  it('rejects updates not signed by the root', async () => {
+    await expectCode(keyring.applyUpdate(signedUpdate({ add: [trustedKey()] }, rotated.privateKey)), 'SIGNATURE_INVALID');
+
+    const update = signedUpdate({ add: [trustedKey()] });
+    await expectCode(keyring.applyUpdate({ ...update, add: [trustedKey({ public_key: other.publicKey })] }), 'SIGNATURE_INVALID');
+
+    expect(keyring.getStatus()).toEqual({ version: 0, keys: [] });
+  });
+
+  it('rejects updates that are not newer than the current version', async () => {
+    await keyring.applyUpdate(signedUpdate({ version: 3, add: [trustedKey()] }));
+
+    await expectCode(keyring.applyUpdate(signedUpdate({ version: 3, retire: ['k2'] })), 'VERSION_STALE');
+    await expectCode(keyring.applyUpdate(signedUpdate({ version: 2, retire: ['k2'] })), 'VERSION_STALE');
+    expect(keyring.getStatus().keys.map(key => key.keyId)).toEqual(['k2']);
+  });
+
+  it.each<[string, TrustedKey]>([
+    ['an empty key id', trustedKey({ key_id: '' })],
+    ['the root key id', trustedKey({ key_id: ROOT_KEY_ID })],
+    ['a malformed public key', trustedKey({ public_key: 'not a key' })],
+  ])('rejects an update adding %s', async (_label, key) => {
+    await expectCode(keyring.applyUpdate(signedUpdate({ add: [key] })), 'KEY_INVALID');
+    expect(keyring.getStatus().version).toBe(0);
+  });
+
+  it.each<[string, Partial<TrustedKey>, boolean]>([
+    ['inside its window', { not_before: new Date(Date.now() - HOUR).toISOString(), not_after: new Date(Date.now() + HOUR).toISOString() }, true],
+    ['before not_before', { not_before: new Date(Date.now() + HOUR).toISOString() }, false],
+    ['after not_after', { not_after: new Date(Date.now() - HOUR).toISOString() }, false],
+  ])('checks the validity window of a key %s', async (_label, window, active) => {
+    await keyring.applyUpdate(signedUpdate({ add: [trustedKey(window)] }));
+
+    expect(keyring.verify('catalog', sign('catalog', rotated.privateKey), 'k2')).toBe(active);
+    expect(keyring.getStatus().keys[0].active).toBe(active);
+  });
+
+  it('replays persisted updates on startup', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'keyring-'));
+    const keyringPath = path.join(dir, 'keyring.json');
+
+    const persisted = new KeyringService(root.publicKey, keyringPath);
+    await persisted.applyUpdate(signedUpdate({ version: 1, add: [trustedKey()] }));
+    await persisted.applyUpdate(signedUpdate({ version: 2, add: [trustedKey({ key_id: 'k3', public_key: other.publicKey })] }));
+
+    const restored = new KeyringService(root.publicKey, keyringPath);
+    await restored.load();
+    expect(restored.getStatus().version).toBe(2);
+    expect(restored.verify('catalog', sign('catalog', other.privateKey), 'k3')).toBe(true);
+
+    // An update that no longer verifies stops the replay
+    const content = JSON.parse(await fs.readFile(keyringPath, 'utf-8')) as { updates: KeyringUpdate[] };
+    content.updates[1].add = [trustedKey({ key_id: 'k3', public_key: rotated.publicKey })];
+    await fs.writeFile(keyringPath, JSON.stringify(content));
+
+    const tampered = new KeyringService(root.publicKey, keyringPath);
+    await tampered.load();
+    expect(tampered.getStatus().keys.map(key => key.keyId)).toEqual(['k2']);
+
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Catalog Signing Keyring
+ *
+ * Holds the keys trusted to sign query catalogs. The root CA certificate from
+ * init.json is always trusted; additional keys (each with an optional
+ * not-before/not-after window) are added and retired by `keyring.update`
+ * events, which must be signed by the root.
+ *
+ * Applied updates are persisted and replayed on startup - each one is
+ * verified against the root again, so the file itself is never trusted.
+ */
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { logger } from '../utils/logger.js';
+import { canonicalJson } from '../utils/canonical-json.js';
+import { KeyringUpdate, TrustedKey } from '../types/messages.js';
+
+// Key id of the CA certificate from init.json (also used when a catalog has no key_id)
+export const ROOT_KEY_ID = 'root';
+
+/**
+ * Error thrown when a keyring update is rejected
+ */
+export class KeyringError extends Error {
+  constructor(
+    message: string,
+    public code: 'SIGNATURE_INVALID' | 'VERSION_STALE' | 'KEY_INVALID'
+  ) {
+    super(message);
+    this.name = 'KeyringError';
+  }
+}
+
+export class KeyringService {
+  private rootKey: string;
+  private keyringPath: string | null;
+  private keys = new Map<string, TrustedKey>();
+  private version = 0;
+  private updates: KeyringUpdate[] = [];
+
+  /**
+   * @param rootKey - PEM CA certificate from init.json
+   * @param keyringPath - File applied updates are persisted to (null disables persistence)
+   */
+  constructor(rootKey: string, keyringPath: string | null = null) {
+    this.rootKey = rootKey;
+    this.keyringPath = keyringPath;
+  }
+
+  /**
+   * Replay persisted updates (call once on startup).
+   * Stops at the first update that no longer verifies.
+   */
+  async load(): Promise<void> {
+    if (!this.keyringPath) return;
+
+    let updates: KeyringUpdate[];
+    try {
+      const content = JSON.parse(await fs.readFile(this.keyringPath, 'utf-8')) as { updates?: KeyringUpdate[] };
+      updates = content.updates ?? [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn('Failed to read persisted keyring:', error);
+      }
+      return;
+    }
+
+    for (const update of updates) {
+      try {
+        this.apply(update);
+      } catch (error) {
+        logger.error(`Persisted keyring update v${update.version} rejected: ${error instanceof Error ? error.message : error}`);
+        break;
+      }
+    }
+
+    logger.info(`Keyring restored: version ${this.version}, ${this.keys.size} additional key(s)`);
+  }
+
+  /**
+   * Apply a keyring.update event from the server and persist it.
+   * Throws KeyringError if the update is not signed by the root or is stale.
+   */
+  async applyUpdate(update: KeyringUpdate): Promise<void> {
+    this.apply(update);
+
+    try {
+      await this.persist();
+    } catch (error) {
+      logger.warn('Failed to persist keyring:', error);
+    }
+  }
+
+  /**
+   * Verify a signature made by the given key (the root when keyId is absent).
+   * Keys outside their validity window are not accepted.
+   */
+  verify(content: string, signature: string, keyId: string = ROOT_KEY_ID): boolean {
+    const publicKey = this.getActiveKey(keyId);
+    if (!publicKey) {
+      return false;
+    }
+
+    try {
+      const verifier = crypto.createVerify('SHA256');
+      verifier.update(content);
+      return verifier.verify(publicKey, Buffer.from(signature, 'base64'));
+    } catch (error) {
+      logger.error(`Error verifying signature with key ${keyId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Keyring state for monitoring
+   */
+  getStatus(): {
+    version: number;
+    keys: { keyId: string; notBefore: string | null; notAfter: string | null; active: boolean }[];
+  } {
+    return {
+      version: this.version,
+      keys: Array.from(this.keys.values()).map(key => ({
+        keyId: key.key_id,
+        notBefore: key.not_before ?? null,
+        notAfter: key.not_after ?? null,
+        active: this.isWithinWindow(key),
+      })),
+    };
+  }
+
+  private getActiveKey(keyId: string): string | null {
+    if (keyId === ROOT_KEY_ID) {
+      if (!this.rootKey) {
+        logger.error('CA certificate not available for signature verification');
+        return null;
+      }
+      return this.rootKey;
+    }
+
+    const key = this.keys.get(keyId);
+    if (!key) {
+      logger.error(`Signing key ${keyId} is not in the trusted keyring`);
+      return null;
+    }
+    if (!this.isWithinWindow(key)) {
+      logger.error(`Signing key ${keyId} is outside its validity window`);
+      return null;
+    }
+    return key.public_key;
+  }
+
+  private isWithinWindow(key: TrustedKey): boolean {
+    const now = Date.now();
+    if (key.not_before && now < new Date(key.not_before).getTime()) return false;
+    if (key.not_after && now > new Date(key.not_after).getTime()) return false;
+    return true;
+  }
+
+  /**
+   * Verify an update against the root key and apply it to the in-memory keyring
+   */
+  private apply(update: KeyringUpdate): void {
+    // Recreate content that was signed (must match server exactly!)
+    const content = canonicalJson({
+      version: update.version,
+      issued_at: update.issued_at,
+      ...(update.add !== undefined ? { add: update.add } : {}),
+      ...(update.retire !== undefined ? { retire: update.retire } : {}),
+    });
+
+    if (!this.verify(content, update.signature, ROOT_KEY_ID)) {
+      throw new KeyringError('Keyring update signature verification failed', 'SIGNATURE_INVALID');
+    }
+
+    if (update.version <= this.version) {
+      throw new KeyringError(
+        `Keyring update version ${update.version} is not newer than ${this.version}`,
+        'VERSION_STALE'
+      );
+    }
+
+    for (const key of update.add ?? []) {
+      if (!key.key_id || key.key_id === ROOT_KEY_ID) {
+        throw new KeyringError(`Invalid key id: ${key.key_id}`, 'KEY_INVALID');
+      }
+      try {
+        crypto.createPublicKey(key.public_key);
+      } catch {
+        throw new KeyringError(`Key ${key.key_id} is not a valid public key`, 'KEY_INVALID');
+      }
+    }
+
+    for (const key of update.add ?? []) {
+      this.keys.set(key.key_id, key);
+    }
+    for (const keyId of update.retire ?? []) {
+      this.keys.delete(keyId);
+    }
+
+    this.version = update.version;
+    this.updates.push(update);
+
+    logger.info(`Keyring updated to version ${update.version}: +${update.add?.length ?? 0} / -${update.retire?.length ?? 0} key(s)`);
+  }
+
+  /**
+   * Write applied updates atomically (temp file + rename)
+   */
+  private async persist(): Promise<void> {
+    if (!this.keyringPath) return;
+
+    const tempPath = `${this.keyringPath}.tmp`;
+    await fs.mkdir(path.dirname(this.keyringPath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify({ updates: this.updates }, null, 2));
+    await fs.rename(tempPath, this.keyringPath);
+    logger.debug('Keyring persisted to file');
+  }
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { encode } from '@msgpack/msgpack';
+import { MessageCodec } from './message-codec.js';
+import { Message } from '../types/index.js';
+
+function response(payload: unknown): Message {
+  return { id: 'msg-1', type: 'response', action: 'sql.execute', payload, timestamp: 0 };
+}
+
+// Enough rows for the MessagePack encoding to pass a 1 KiB threshold
+const rows = Array.from({ length: 100 }, (_, index) => ({ id: index, name: `row ${index}` }));
+
+describe('MessageCodec', () => {
+  let codec: MessageCodec;
+
+  beforeEach(() => {
+    codec = new MessageCodec(1024);
+  });
+
+  it('sends JSON text until MessagePack is negotiated', () => {
+    const message = response({ rows });
+    const encoded = codec.encode(message);
+
+    expect(codec.encoding).toBe('json');
+    expect(encoded.binary).toBe(false);
+    expect(JSON.parse(encoded.data as string)).toEqual(message);
+    expect(encoded.bytes).toBe(Buffer.byteLength(encoded.data as string));
+  });
+
+  it('sends MessagePack binary frames at or above the threshold once negotiated', () => {
+    codec.setEncoding('msgpack');
+    const message = response({ rows });
+    const encoded = codec.encode(message);
+
+    expect(encoded.binary).toBe(true);
+    expect(encoded.bytes).toBe((encoded.data as Uint8Array).byteLength);
+    expect(encoded.bytes).toBeGreaterThanOrEqual(1024);
+    expect(codec.decode(Buffer.from(encoded.data as Uint8Array), true)).toEqual(message);
+  });
+
+  it('applies the threshold to the MessagePack size', () => {
+    const message = response({ success: true });
+    const size = encode(message).byteLength;
+
+    const atThreshold = new MessageCodec(size);
+    atThreshold.setEncoding('msgpack');
+    expect(atThreshold.encode(message).binary).toBe(true);
+
+    const aboveThreshold = new MessageCodec(size + 1);
+    aboveThreshold.setEncoding('msgpack');
+    expect(aboveThreshold.encode(message).binary).toBe(false);
+  });
+
+  it('keeps small messages as JSON text with MessagePack negotiated', () => {
+    codec.setEncoding('msgpack');
+    const encoded = codec.encode(response({ success: true }));
+
+    expect(encoded.binary).toBe(false);
+    expect(JSON.parse(encoded.data as string)).toEqual(response({ success: true }));
+  });
+
+  it('goes back to JSON when the encoding is reset', () => {
+    codec.setEncoding('msgpack');
+    codec.setEncoding('json');
+
+    expect(codec.encode(response({ rows })).binary).toBe(false);
+  });
+
+  it('encodes the same values as JSON would', () => {
+    codec.setEncoding('msgpack');
+    const created = new Date('2024-01-02T03:04:05.000Z');
+    const payload = {
+      rows,
+      created,
+      nested: { when: created, skipped: undefined },
+      list: [1, undefined, created],
+      unchanged: 'text',
+    };
+
+    const encoded = codec.encode(response(payload));
+    expect(encoded.binary).toBe(true);
+    expect(codec.decode(Buffer.from(encoded.data as Uint8Array), true)).toEqual(
+      JSON.parse(JSON.stringify(response(payload)))
+    );
+    // The caller's data is not modified
+    expect(payload.created).toBe(created);
+    expect(payload.list).toEqual([1, undefined, created]);
+  });
+
+  it('decodes text frames as JSON and binary frames as MessagePack', () => {
+    const message = response({ success: true });
+
+    expect(codec.decode(Buffer.from(JSON.stringify(message)), false)).toEqual(message);
+    expect(codec.decode(Buffer.from(encode(message)), true)).toEqual(message);
+
+    // Fragmented frames arrive as a list of buffers
+    const packed = Buffer.from(encode(message));
+    expect(codec.decode([packed.subarray(0, 5), packed.subarray(5)], true)).toEqual(message);
+  });
+
+  it('throws on a malformed frame', () => {
+    expect(() => codec.decode(Buffer.from('{not json'), false)).toThrow();
+    expect(() => codec.decode(Buffer.from([0xc1]), true)).toThrow();
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Wire encoding of messages exchanged with the server. Text frames always
+ * carry JSON; once the server picks MessagePack at registration, messages of
+ * at least `binaryThreshold` bytes are sent as MessagePack binary frames.
+ * Inbound binary frames are always decoded as MessagePack.
+ */
+import WebSocket from 'ws';
+import { encode, decode } from '@msgpack/msgpack';
+import { Message, MessageEncoding } from '../types/index.js';
+
+export interface EncodedMessage {
+  data: string | Uint8Array;
+  binary: boolean;
+  bytes: number;          // Size of data on the wire
+}
+
+/**
+ * What JSON would carry for a value: toJSON() applied (dates become ISO
+ * strings) and undefined array items turned into null; undefined fields are
+ * dropped by the encoder. Values that need no change are returned as they
+ * are, so plain data - e.g. already serialized rows - is not copied.
+ */
+function toWireValue(value: unknown): unknown {
+  if (value === null || typeof value !== 'object') return value;
+
+  if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return toWireValue((value as { toJSON(): unknown }).toJSON());
+  }
+
+  if (Array.isArray(value)) {
+    let copy: unknown[] | null = null;
+    for (let index = 0; index < value.length; index++) {
+      const item = value[index] === undefined ? null : toWireValue(value[index]);
+      if (item !== value[index] && !copy) copy = value.slice(0, index);
+      copy?.push(item);
+    }
+    return copy ?? value;
+  }
+
+  let copy: Record<string, unknown> | null = null;
+  for (const [key, item] of Object.entries(value)) {
+    const wire = toWireValue(item);
+    if (wire !== item) copy ??= { ...value };
+    if (copy) copy[key] = wire;
+  }
+  return copy ?? value;
+}
+
+export class MessageCodec {
+  private _encoding: MessageEncoding = 'json';
+
+  constructor(private binaryThreshold: number) {}
+
+  get encoding(): MessageEncoding {
+    return this._encoding;
+  }
+
+  /**
+   * Switch the encoding of outbound messages (reset to JSON on every new connection)
+   */
+  setEncoding(encoding: MessageEncoding): void {
+    this._encoding = encoding;
+  }
+
+  /**
+   * Encode a message for sending. With MessagePack the threshold applies to
+   * the MessagePack size; smaller messages are re-encoded as JSON text.
+   */
+  encode(message: Message): EncodedMessage {
+    if (this._encoding === 'msgpack') {
+      // Same values as the JSON encoding, so the server sees no difference
+      const packed = encode(toWireValue(message), { ignoreUndefined: true });
+      if (packed.byteLength >= this.binaryThreshold) {
+        return { data: packed, binary: true, bytes: packed.byteLength };
+      }
+    }
+
+    const json = JSON.stringify(message);
+    return { data: json, binary: false, bytes: Buffer.byteLength(json) };
+  }
+
+  decode(data: WebSocket.RawData, isBinary: boolean): unknown {
+    const buffer = Buffer.isBuffer(data) ? data : Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data);
+    return isBinary ? decode(buffer) : JSON.parse(buffer.toString('utf-8'));
+  }
+}
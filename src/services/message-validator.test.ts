@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { validateEnvelope, validatePayload, PayloadValidationError } from './message-validator.js';
+import { Message } from '../types/index.js';
+
+function message(type: Message['type'], action: string, payload: unknown): Message {
+  return { id: 'msg-1', type, action, payload, timestamp: 0 };
+}
+
+/**
+ * The path and message of the PayloadValidationError thrown by fn
+ */
+function rejection(fn: () => void): { path: string; message: string } {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(PayloadValidationError);
+    expect((error as PayloadValidationError).code).toBe('INVALID_PAYLOAD');
+    return { path: (error as PayloadValidationError).path, message: (error as Error).message };
+  }
+  return expect.fail('Expected INVALID_PAYLOAD');
+}
+
+describe('validateEnvelope', () => {
+  it('accepts a well-formed envelope', () => {
+    expect(() => validateEnvelope({ id: 'a', type: 'request', action: 'file.read', payload: {} })).not.toThrow();
+    expect(() => validateEnvelope({ id: 'a', type: 'event', action: 'config.sync', timestamp: 1 })).not.toThrow();
+  });
+
+  it.each<[string, unknown, string, string]>([
+    ['a non-object', 'hello', 'message', 'Invalid payload: message must be an object (got string)'],
+    ['an array', [], 'message', 'Invalid payload: message must be an object (got array)'],
+    ['a missing id', { type: 'request', action: 'a' }, 'message.id', 'Invalid payload: message.id is required'],
+    ['an empty action', { id: 'a', type: 'request', action: '' }, 'message.action', 'Invalid payload: message.action must not be empty'],
+    ['an unknown type', { id: 'a', type: 'push', action: 'a' }, 'message.type', 'Invalid payload: message.type must be one of: request, response, event'],
+    ['a string timestamp', { id: 'a', type: 'event', action: 'a', timestamp: 'now' }, 'message.timestamp', 'Invalid payload: message.timestamp must be a number (got string)'],
+  ])('rejects %s', (_label, value, path, text) => {
+    expect(rejection(() => validateEnvelope(value))).toEqual({ path, message: text });
+  });
+});
+
+describe('validatePayload', () => {
+  it.each<[Message['type'], string, unknown]>([
+    ['request', 'sql.execute', { template: 'SELECT 1', params: { id: 1, name: 'a', active: true, note: null }, toolId: 'orders' }],
+    ['request', 'sql.execute', { query: 'SELECT 1', stream: true, chunkSize: 100, timeout: null }],
+    ['request', 'sql.testConnection', undefined],
+    ['request', 'file.list', { path: 'src', recursive: false, extra: 'ignored' }],
+    ['request', 'file.getStructure', 'anything'],
+    ['event', 'config.sync', { protocolVersion: 3 }],
+    ['response', 'probe.register.response', { resumed: true, receivedIds: ['a'], encoding: 'msgpack' }],
+    ['request', 'unknown.action', 42],
+  ])('accepts a valid %s %s', (type, action, payload) => {
+    expect(() => validatePayload(message(type, action, payload))).not.toThrow();
+  });
+
+  it.each<[string, Message['type'], string, unknown, string]>([
+    ['a missing payload', 'request', 'file.read', undefined, 'payload'],
+    ['a missing field', 'request', 'file.read', {}, 'payload.path'],
+    ['a wrong field type', 'request', 'sql.execute', { template: 'SELECT 1', stream: 'yes' }, 'payload.stream'],
+    ['a non-integer chunk size', 'request', 'sql.execute', { query: 'SELECT 1', chunkSize: 1.5 }, 'payload.chunkSize'],
+    ['a negative timeout', 'request', 'sql.execute', { query: 'SELECT 1', timeout: -1 }, 'payload.timeout'],
+    ['an object param value', 'request', 'sql.execute', { template: 'SELECT 1', params: { id: { $gt: 1 } } }, 'payload.params.id'],
+    ['an unknown encoding', 'response', 'probe.register.response', { encoding: 'cbor' }, 'payload.encoding'],
+    ['a bad schema kind', 'event', 'allowlist.sync', {
+      catalog: {
+        version: 1, generated_at: 'x', expires_at: 'y', signature: 's',
+        queries: { orders: 'sha256:1' },
+        schemas: { orders: { limit: { kind: 'float' } } },
+      },
+    }, 'payload.catalog.schemas.orders.limit.kind'],
+    ['a bad key in a keyring update', 'event', 'keyring.update', {
+      update: { version: 1, issued_at: 'x', signature: 's', add: [{ key_id: 'k2', public_key: 'pem' }, { key_id: '' }] },
+    }, 'payload.update.add[1].key_id'],
+  ])('rejects %s with the field path', (_label, type, action, payload, path) => {
+    expect(rejection(() => validatePayload(message(type, action, payload))).path).toBe(path);
+  });
+
+  it.each(['constructor', 'toString', '__proto__', '__defineGetter__'])(
+    'treats the prototype name %s as an unknown action',
+    action => {
+      expect(() => validatePayload(message('request', action, undefined))).not.toThrow();
+      expect(() => validatePayload(message('event', action, 42))).not.toThrow();
+    }
+  );
+});
@@ -0,0 +1,223 @@
+/**
+ * Runtime validation of messages from the server
+ *
+ * The envelope and the payload of every known action/event are checked
+ * against a schema before any handler casts them, so a malformed message is
+ * answered with INVALID_PAYLOAD and the path of the offending field instead
+ * of failing somewhere inside a handler. Unknown fields are ignored (newer
+ * servers may send more), and null is accepted wherever a field is optional.
+ */
+import { Message } from '../types/index.js';
+
+/**
+ * Error thrown when a message does not match its schema
+ */
+export class PayloadValidationError extends Error {
+  code = 'INVALID_PAYLOAD' as const;
+
+  constructor(public path: string, reason: string) {
+    super(`Invalid payload: ${path} ${reason}`);
+    this.name = 'PayloadValidationError';
+  }
+}
+
+type Schema = (value: unknown, path: string) => void;
+
+const typeOf = (value: unknown) => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value);
+
+const fail = (path: string, reason: string): never => {
+  throw new PayloadValidationError(path, reason);
+};
+
+const expected = (path: string, kind: string, value: unknown): never =>
+  fail(path, value === undefined ? 'is required' : `must be ${kind} (got ${typeOf(value)})`);
+
+const string = (opts: { nonEmpty?: boolean } = {}): Schema => (value, path) => {
+  if (typeof value !== 'string') expected(path, 'a string', value);
+  if (opts.nonEmpty && value === '') fail(path, 'must not be empty');
+};
+
+const number = (opts: { integer?: boolean; min?: number } = {}): Schema => (value, path) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) expected(path, 'a number', value);
+  if (opts.integer && !Number.isInteger(value)) fail(path, 'must be an integer');
+  if (opts.min !== undefined && (value as number) < opts.min) fail(path, `must be >= ${opts.min}`);
+};
+
+const boolean: Schema = (value, path) => {
+  if (typeof value !== 'boolean') expected(path, 'a boolean', value);
+};
+
+const literal = (...allowed: string[]): Schema => (value, path) => {
+  if (typeof value !== 'string' || !allowed.includes(value)) fail(path, `must be one of: ${allowed.join(', ')}`);
+};
+
+const oneOf = (...schemas: Schema[]): Schema => (value, path) => {
+  for (const schema of schemas) {
+    try {
+      schema(value, path);
+      return;
+    } catch {
+      // Try the next alternative
+    }
+  }
+  fail(path, `has an unsupported type (${typeOf(value)})`);
+};
+
+const nullValue: Schema = (value, path) => {
+  if (value !== null) fail(path, 'must be null');
+};
+
+const optional = (schema: Schema): Schema => (value, path) => {
+  if (value !== undefined && value !== null) schema(value, path);
+};
+
+const array = (item: Schema): Schema => (value, path) => {
+  if (!Array.isArray(value)) expected(path, 'an array', value);
+  (value as unknown[]).forEach((element, index) => item(element, `${path}[${index}]`));
+};
+
+const record = (item: Schema): Schema => (value, path) => {
+  if (typeOf(value) !== 'object') expected(path, 'an object', value);
+  for (const [key, element] of Object.entries(value as Record<string, unknown>)) {
+    item(element, `${path}.${key}`);
+  }
+};
+
+const object = (shape: Record<string, Schema>): Schema => (value, path) => {
+  if (typeOf(value) !== 'object') expected(path, 'an object', value);
+  for (const [key, schema] of Object.entries(shape)) {
+    schema((value as Record<string, unknown>)[key], `${path}.${key}`);
+  }
+};
+
+// ============== Schemas ==============
+
+const envelope = object({
+  id: string({ nonEmpty: true }),
+  type: literal('request', 'response', 'event'),
+  action: string({ nonEmpty: true }),
+  timestamp: optional(number()),
+});
+
+const sqlParamValue = oneOf(string(), number(), boolean, nullValue);
+
+const paramSpec = object({
+  kind: literal('ident', 'string', 'int', 'number', 'bool', 'date', 'datetime', 'uuid'),
+  required: optional(boolean),
+  pattern: optional(string()),
+  enum: optional(array(oneOf(string(), number()))),
+  min: optional(number()),
+  max: optional(number()),
+  max_length: optional(number({ integer: true, min: 0 })),
+});
+
+const catalog = object({
+  version: number({ integer: true }),
+  generated_at: string({ nonEmpty: true }),
+  expires_at: string({ nonEmpty: true }),
+  queries: record(string()),
+  schemas: optional(record(record(paramSpec))),
+  key_id: optional(string({ nonEmpty: true })),
+  signature: string({ nonEmpty: true }),
+});
+
+const keyringUpdate = object({
+  version: number({ integer: true }),
+  issued_at: string({ nonEmpty: true }),
+  add: optional(array(object({
+    key_id: string({ nonEmpty: true }),
+    public_key: string({ nonEmpty: true }),
+    not_before: optional(string()),
+    not_after: optional(string()),
+  }))),
+  retire: optional(array(string())),
+  signature: string({ nonEmpty: true }),
+});
+
+// Requests from the server, by action
+const REQUEST_SCHEMAS: Record<string, Schema> = {
+  'sql.execute': object({
+    template: optional(string({ nonEmpty: true })),
+    params: optional(record(sqlParamValue)),
+    toolId: optional(string()),
+    query: optional(string({ nonEmpty: true })),
+    timeout: optional(number({ min: 0 })),
+    targetId: optional(string({ nonEmpty: true })),
+    stream: optional(boolean),
+    chunkSize: optional(number({ integer: true, min: 1 })),
+    maxRows: optional(number({ integer: true, min: 1 })),
+    maxBytes: optional(number({ integer: true, min: 1 })),
+  }),
+  'sql.cancel': object({
+    requestId: string({ nonEmpty: true }),
+  }),
+  'sql.testConnection': optional(object({
+    targetId: optional(string({ nonEmpty: true })),
+  })),
+  'file.read': object({
+    path: string(),
+  }),
+  'file.list': object({
+    path: string(),
+    recursive: optional(boolean),
+  }),
+  'file.search': object({
+    pattern: string({ nonEmpty: true }),
+    glob: optional(string()),
+  }),
+  'file.getStructure': () => {},
+};
+
+// Events from the server, by action
+const EVENT_SCHEMAS: Record<string, Schema> = {
+  'config.sync': object({
+    authRequired: optional(boolean),
+    protocolVersion: optional(number({ integer: true, min: 0 })),
+    minProtocolVersion: optional(number({ integer: true, min: 0 })),
+  }),
+  'allowlist.sync': object({
+    catalog,
+  }),
+  'keyring.update': object({
+    update: keyringUpdate,
+  }),
+};
+
+// Responses to our own requests, by action (auth responses carry their fields on the envelope)
+const RESPONSE_SCHEMAS: Record<string, Schema> = {
+  'probe.register.response': optional(object({
+    resumeToken: optional(string({ nonEmpty: true })),
+    resumed: optional(boolean),
+    receivedIds: optional(array(string())),
+    encoding: optional(literal('json', 'msgpack')),
+  })),
+  'allowlist.refresh.response': optional(object({
+    catalog: optional(catalog),
+  })),
+};
+
+const SCHEMAS: Record<Message['type'], Record<string, Schema>> = {
+  request: REQUEST_SCHEMAS,
+  event: EVENT_SCHEMAS,
+  response: RESPONSE_SCHEMAS,
+};
+
+/**
+ * Check the envelope of a parsed message. Throws PayloadValidationError.
+ */
+export function validateEnvelope(value: unknown): asserts value is Message {
+  envelope(value, 'message');
+}
+
+/**
+ * Check the payload of a message against the schema of its action. Actions
+ * without a schema pass (unknown actions are answered by the dispatcher).
+ */
+export function validatePayload(message: Message): void {
+  // Own properties only - an action named 'constructor' must not pick up Object.prototype
+  const schemas = SCHEMAS[message.type];
+  const schema = Object.hasOwn(schemas, message.action) ? schemas[message.action] : undefined;
+  if (schema) {
+    schema(message.payload, 'payload');
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ResponseBuffer } from './response-buffer.js';
+import { Message } from '../types/index.js';
+
+function response(id: string, payload: unknown = { success: true }): Message {
+  return { id, type: 'response', action: 'sql.execute', payload, timestamp: 0 };
+}
+
+const ids = (messages: Message[]) => messages.map(message => message.id);
+
+describe('ResponseBuffer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('drains buffered responses oldest first and empties the buffer', () => {
+    const buffer = new ResponseBuffer({ windowMs: 60_000, maxEntries: 10, maxBytes: 10_000 });
+    buffer.add(response('a'));
+    buffer.add(response('b'));
+    buffer.add(response('c'));
+
+    expect(buffer.ids()).toEqual(['a', 'b', 'c']);
+    expect(ids(buffer.drain())).toEqual(['a', 'b', 'c']);
+    expect(buffer.size).toBe(0);
+    expect(buffer.drain()).toEqual([]);
+  });
+
+  it('skips responses the server already received', () => {
+    const buffer = new ResponseBuffer({ windowMs: 60_000, maxEntries: 10, maxBytes: 10_000 });
+    buffer.add(response('a'));
+    buffer.add(response('b'));
+    buffer.add(response('c'));
+
+    expect(ids(buffer.drain(new Set(['b'])))).toEqual(['a', 'c']);
+    expect(buffer.size).toBe(0);
+  });
+
+  it('keeps one response per id, replacing the earlier one', () => {
+    const buffer = new ResponseBuffer({ windowMs: 60_000, maxEntries: 10, maxBytes: 10_000 });
+    buffer.add(response('a', { partial: true }));
+    buffer.add(response('b'));
+    buffer.add(response('a', { success: true }));
+
+    const drained = buffer.drain();
+    expect(ids(drained)).toEqual(['b', 'a']);
+    expect(drained[1].payload).toEqual({ success: true });
+  });
+
+  it('drops responses older than the window', () => {
+    const buffer = new ResponseBuffer({ windowMs: 60_000, maxEntries: 10, maxBytes: 10_000 });
+    buffer.add(response('a'));
+    vi.advanceTimersByTime(30_000);
+    buffer.add(response('b'));
+
+    vi.advanceTimersByTime(30_001);
+    expect(buffer.ids()).toEqual(['b']);
+    expect(ids(buffer.drain())).toEqual(['b']);
+  });
+
+  it('evicts the oldest responses when the entry limit is reached', () => {
+    const buffer = new ResponseBuffer({ windowMs: 60_000, maxEntries: 2, maxBytes: 10_000 });
+    buffer.add(response('a'));
+    buffer.add(response('b'));
+    buffer.add(response('c'));
+
+    expect(ids(buffer.drain())).toEqual(['b', 'c']);
+  });
+
+  it('evicts the oldest responses to stay within the size limit', () => {
+    const buffer = new ResponseBuffer({ windowMs: 60_000, maxEntries: 10, maxBytes: 250 });
+    buffer.add(response('a'), 100);
+    buffer.add(response('b'), 100);
+    buffer.add(response('c'), 100);
+    expect(buffer.ids()).toEqual(['b', 'c']);
+
+    // Replacing a response frees its old size first
+    buffer.add(response('b'), 150);
+    expect(buffer.ids()).toEqual(['c', 'b']);
+  });
+
+  it('does not buffer a response larger than the size limit', () => {
+    const buffer = new ResponseBuffer({ windowMs: 60_000, maxEntries: 10, maxBytes: 250 });
+    buffer.add(response('a'), 100);
+    buffer.add(response('huge'), 251);
+
+    expect(buffer.ids()).toEqual(['a']);
+  });
+});
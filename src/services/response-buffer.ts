@@ -0,0 +1,95 @@
+/**
+ * Holds responses that could not be delivered while the connection to the
+ * server was down, so they can be replayed once the session is resumed.
+ * Bounded by age, count and size; keyed by message id, so a request is
+ * answered at most once per replay.
+ */
+import { Message } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+interface BufferedResponse {
+  message: Message;
+  bytes: number;            // Serialized size
+  bufferedAt: number;
+}
+
+export interface ResponseBufferOptions {
+  windowMs: number;       // Responses older than this are dropped
+  maxEntries: number;
+  maxBytes: number;
+}
+
+export class ResponseBuffer {
+  private entries = new Map<string, BufferedResponse>();
+  private bytes = 0;
+
+  constructor(private options: ResponseBufferOptions) {}
+
+  /**
+   * Buffer a response (replacing an earlier one with the same id), evicting the oldest if full
+   *
+   * @param bytes - Encoded size, if the caller already has it
+   */
+  add(message: Message, bytes = Buffer.byteLength(JSON.stringify(message))): void {
+
+    if (bytes > this.options.maxBytes) {
+      logger.warn(`Response ${message.id} (${bytes} bytes) is too large to buffer for replay - dropped`);
+      return;
+    }
+
+    this.remove(message.id);
+    this.prune(Date.now());
+
+    while (this.entries.size > 0 && (this.entries.size >= this.options.maxEntries || this.bytes + bytes > this.options.maxBytes)) {
+      const oldest = this.entries.keys().next().value as string;
+      logger.warn(`Response buffer full - dropped response ${oldest}`);
+      this.remove(oldest);
+    }
+
+    this.entries.set(message.id, { message, bytes, bufferedAt: Date.now() });
+    this.bytes += bytes;
+  }
+
+  /**
+   * Ids of the responses still waiting to be delivered
+   */
+  ids(): string[] {
+    this.prune(Date.now());
+    return Array.from(this.entries.keys());
+  }
+
+  /**
+   * Remove and return every buffered response, oldest first, skipping ids the server already has
+   */
+  drain(skipIds: Set<string> = new Set()): Message[] {
+    this.prune(Date.now());
+
+    const pending = Array.from(this.entries.entries())
+      .filter(([id]) => !skipIds.has(id))
+      .map(([, entry]) => entry.message);
+
+    this.entries.clear();
+    this.bytes = 0;
+    return pending;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private remove(id: string): void {
+    const entry = this.entries.get(id);
+    if (entry) {
+      this.bytes -= entry.bytes;
+      this.entries.delete(id);
+    }
+  }
+
+  private prune(now: number): void {
+    for (const [id, entry] of this.entries) {
+      if (now - entry.bufferedAt <= this.options.windowMs) break;
+      logger.warn(`Buffered response ${id} expired before the connection was resumed`);
+      this.remove(id);
+    }
+  }
+}
@@ -1,37 +1,98 @@
-import { SqlConfig, DbType } from '../types/index.js';
-import { IDbDriver, DbQueryResult } from './drivers/db-driver.interface.js';
+import { SqlConfig, DbType, SqlTargetHealth } from '../types/index.js';
+import { IDbDriver, DbQueryResult, DbQueryParam, DbStreamOptions, DbStreamSummary } from './drivers/db-driver.interface.js';
 import { MssqlDriver } from './drivers/mssql.driver.js';
 import { PostgresDriver } from './drivers/postgres.driver.js';
+import { MysqlDriver } from './drivers/mysql.driver.js';
 import { logger } from '../utils/logger.js';
+import { extendRequestContext } from '../utils/request-context.js';
+import { isTransientSqlError } from './drivers/sql-error.js';
+import { CircuitBreaker, QueryBudget } from './circuit-breaker.js';
+
+// Target used when the server does not specify one (the single connection from sql-config.json)
+export const DEFAULT_TARGET_ID = 'default';
+
+/**
+ * Error thrown when a running query is aborted via its AbortSignal (sql.cancel)
+ */
+export class QueryCancelledError extends Error {
+  constructor(message = 'Query cancelled by server') {
+    super(message);
+    this.name = 'QueryCancelledError';
+  }
+}
+
+interface SqlTarget {
+  config: SqlConfig;
+  driver: IDbDriver | null;
+  lastTestSuccess: boolean;
+  breaker: CircuitBreaker;
+  budget: QueryBudget;
+}
+
+export interface SqlGuardOptions {
+  breakerFailures?: number;      // Consecutive failures/timeouts that open the breaker
+  breakerResetMs?: number;       // How long the breaker stays open before a probe
+  queriesPerMinute?: number;     // Per-target query budget (0 = unlimited)
+}
 
 export class SqlService {
-  private driver: IDbDriver | null = null;
-  private config: SqlConfig | null = null;
-  private _lastTestSuccess = false;
+  private targets = new Map<string, SqlTarget>();
+  private guardOptions: Required<SqlGuardOptions>;
 
-  async configure(config: SqlConfig): Promise<void> {
+  constructor(options: SqlGuardOptions = {}) {
+    this.guardOptions = {
+      breakerFailures: options.breakerFailures ?? 5,
+      breakerResetMs: options.breakerResetMs ?? 30_000,
+      queriesPerMinute: options.queriesPerMinute ?? 0,
+    };
+  }
+
+  async configure(config: SqlConfig, targetId = DEFAULT_TARGET_ID): Promise<void> {
     if (!config.dbType) {
       config.dbType = 'mssql';
     }
 
-    // Skip disconnect if connection params haven't changed and driver is alive
-    const connectionChanged = !this.config
-      || this.config.dbType !== config.dbType
-      || this.config.server !== config.server
-      || this.config.port !== config.port
-      || this.config.user !== config.user
-      || this.config.password !== config.password
-      || this.config.database !== config.database;
+    const existing = this.targets.get(targetId);
 
-    this.config = config;
+    // Skip disconnect if connection params haven't changed and driver is alive
+    const connectionChanged = !existing
+      || existing.config.dbType !== config.dbType
+      || existing.config.server !== config.server
+      || existing.config.port !== config.port
+      || existing.config.user !== config.user
+      || existing.config.password !== config.password
+      || existing.config.database !== config.database
+      || existing.config.readOnly !== config.readOnly;
 
-    if (!connectionChanged && this.driver) {
+    if (existing && !connectionChanged && existing.driver) {
+      existing.config = config;
       return;
     }
 
-    this._lastTestSuccess = false;
-    await this.disconnect();
-    this.driver = this.createDriver(config.dbType);
+    if (existing) {
+      await this.disconnectTarget(existing);
+    }
+
+    // New connection settings start with a closed breaker and a fresh budget
+    this.targets.set(targetId, {
+      config,
+      driver: this.createDriver(config.dbType),
+      lastTestSuccess: false,
+      breaker: new CircuitBreaker(targetId, this.guardOptions.breakerFailures, this.guardOptions.breakerResetMs),
+      budget: new QueryBudget(targetId, this.guardOptions.queriesPerMinute),
+    });
+  }
+
+  /**
+   * Disconnect and forget a named target
+   */
+  async removeTarget(targetId: string): Promise<void> {
+    const target = this.targets.get(targetId);
+    if (!target) return;
+
+    await this.disconnectTarget(target);
+    this.targets.delete(targetId);
+    logger.info(`SQL target removed: ${targetId}`);
   }
 
   private createDriver(dbType: DbType): IDbDriver {
@@ -40,43 +101,77 @@ export class SqlService {
         return new MssqlDriver();
       case 'postgres':
         return new PostgresDriver();
+      case 'mysql':
+        return new MysqlDriver();
       default:
         throw new Error(`Unsupported database type: ${dbType}`);
     }
   }
 
-  async connect(): Promise<boolean> {
-    if (!this.config) {
-      throw new Error('SQL not configured');
+  private getTarget(targetId: string): SqlTarget {
+    const target = this.targets.get(targetId);
+    if (!target) {
+      throw new Error(targetId === DEFAULT_TARGET_ID
+        ? 'SQL not configured'
+        : `Unknown SQL target: ${targetId}`);
     }
-    if (!this.driver) {
-      this.driver = this.createDriver(this.config.dbType || 'mssql');
+    return target;
+  }
+
+  async connect(targetId = DEFAULT_TARGET_ID): Promise<boolean> {
+    const target = this.getTarget(targetId);
+    if (!target.driver) {
+      target.driver = this.createDriver(target.config.dbType || 'mssql');
+    } else if (target.driver.isConnected()) {
+      // Reconnect (e.g. a connection test) - drop the old connection first
+      await this.disconnectTarget(target);
     }
 
     try {
-      await this.driver.connect(this.config);
+      await target.driver.connect(target.config);
       return true;
     } catch (error) {
-      logger.error('SQL connection failed:', error);
+      logger.error(`SQL connection failed (target: ${targetId}):`, error);
       throw error;
     }
   }
 
-  async disconnect(): Promise<void> {
-    if (this.driver) {
-      await this.driver.disconnect();
+  /**
+   * Disconnect a single target, or all targets when no id is given
+   */
+  async disconnect(targetId?: string): Promise<void> {
+    if (targetId) {
+      const target = this.targets.get(targetId);
+      if (target) {
+        await this.disconnectTarget(target);
+      }
+      return;
+    }
+
+    for (const target of this.targets.values()) {
+      await this.disconnectTarget(target);
+    }
+  }
+
+  private async disconnectTarget(target: SqlTarget): Promise<void> {
+    target.lastTestSuccess = false;
+    if (target.driver) {
+      await target.driver.disconnect();
     }
   }
 
-  async testConnection(): Promise<{ success: boolean; error?: string }> {
+  async testConnection(targetId = DEFAULT_TARGET_ID): Promise<{ success: boolean; error?: string }> {
+    const target = this.targets.get(targetId);
     try {
-      await this.connect();
-      const result = await this.execute('SELECT 1 AS test');
+      await this.connect(targetId);
+      // An operator test that reaches the database closes the breaker right away
+      target?.breaker.reset();
+      const result = await this.execute('SELECT 1 AS test', undefined, targetId);
       const success = result.rows.length > 0;
-      this._lastTestSuccess = success;
+      if (target) target.lastTestSuccess = success;
       return { success };
     } catch (error) {
-      this._lastTestSuccess = false;
+      if (target) target.lastTestSuccess = false;
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -86,35 +181,120 @@ export class SqlService {
 
   async execute(
     query: string,
-    timeout?: number
+    timeout?: number,
+    targetId = DEFAULT_TARGET_ID,
+    signal?: AbortSignal,
+    params?: DbQueryParam[]
   ): Promise<DbQueryResult> {
-    if (!this.driver || !this.driver.isConnected()) {
-      await this.connect();
+    return extendRequestContext({ targetId }, () =>
+      this.runGuarded(targetId, signal, 'Query', driver => driver.execute(query, timeout, signal, params))
+    );
+  }
+
+  /**
+   * Execute a query and deliver the result in chunks via options.onChunk
+   */
+  async executeStream(
+    query: string,
+    options: DbStreamOptions,
+    targetId = DEFAULT_TARGET_ID
+  ): Promise<DbStreamSummary> {
+    return extendRequestContext({ targetId }, () =>
+      this.runGuarded(targetId, options.signal, 'Streamed query', driver => driver.executeStream(query, options))
+    );
+  }
+
+  /**
+   * Run a query on a target behind its circuit breaker and query budget.
+   * Connection failures and timeouts count against the breaker; errors in the
+   * query itself mean the database answered, so they count as healthy.
+   */
+  private async runGuarded<T>(
+    targetId: string,
+    signal: AbortSignal | undefined,
+    label: string,
+    run: (driver: IDbDriver) => Promise<T>
+  ): Promise<T> {
+    const target = this.getTarget(targetId);
+
+    target.breaker.acquire();
+    try {
+      target.budget.take();
+    } catch (error) {
+      target.breaker.release();
+      throw error;
     }
 
     const startTime = Date.now();
     try {
-      return await this.driver!.execute(query, timeout);
+      if (!target.driver || !target.driver.isConnected()) {
+        await this.connect(targetId);
+      }
+      if (signal?.aborted) {
+        throw new QueryCancelledError();
+      }
+
+      const result = await run(target.driver!);
+      target.breaker.recordSuccess();
+      return result;
     } catch (error) {
       const duration = Date.now() - startTime;
-      logger.error(`Query failed after ${duration}ms:`, error);
+      if (signal?.aborted || error instanceof QueryCancelledError) {
+        target.breaker.release();
+        logger.info(`${label} cancelled after ${duration}ms (target: ${targetId})`);
+        throw new QueryCancelledError();
+      }
+
+      if (isTransientSqlError(error)) {
+        target.breaker.recordFailure();
+      } else {
+        target.breaker.recordSuccess();
+      }
+      logger.error(`${label} failed after ${duration}ms (target: ${targetId}):`, error);
       throw error;
     }
   }
 
-  isConnected(): boolean {
-    return (this.driver?.isConnected() ?? false) || this._lastTestSuccess;
+  isConnected(targetId = DEFAULT_TARGET_ID): boolean {
+    const target = this.targets.get(targetId);
+    if (!target) return false;
+    return (target.driver?.isConnected() ?? false) || target.lastTestSuccess;
+  }
+
+  getSqlHost(targetId = DEFAULT_TARGET_ID): string | null {
+    return this.targets.get(targetId)?.config.server ?? null;
+  }
+
+  isConfigured(targetId = DEFAULT_TARGET_ID): boolean {
+    return this.targets.has(targetId);
+  }
+
+  getDbType(targetId = DEFAULT_TARGET_ID): DbType | null {
+    return this.targets.get(targetId)?.config.dbType ?? null;
   }
 
-  getSqlHost(): string | null {
-    return this.config?.server ?? null;
+  isReadOnly(targetId = DEFAULT_TARGET_ID): boolean {
+    return this.targets.get(targetId)?.config.readOnly ?? false;
   }
 
-  isConfigured(): boolean {
-    return this.config !== null;
+  getTargetIds(): string[] {
+    return Array.from(this.targets.keys());
   }
 
-  getDbType(): DbType | null {
-    return this.config?.dbType ?? null;
+  /**
+   * Per-target health summary (reported in the heartbeat)
+   */
+  getTargetsHealth(): SqlTargetHealth[] {
+    return Array.from(this.targets.entries()).map(([id, target]) => ({
+      id,
+      name: target.config.name ?? id,
+      dbType: target.config.dbType ?? 'mssql',
+      host: target.config.server,
+      database: target.config.database ?? null,
+      readOnly: target.config.readOnly ?? false,
+      connected: this.isConnected(id),
+      breaker: target.breaker.getStatus(),
+      budget: target.budget.getStatus(),
+    }));
   }
 }
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { StatementPolicyService, StatementPolicyError } from './statement-policy.service.js';
+import { DbType, StatementCategory } from '../types/index.js';
+
+const policy = new StatementPolicyService('read-only');
+
+const category = (sql: string, dialect: DbType): StatementCategory => policy.classify(sql, dialect).category;
+
+describe('StatementPolicyService.classify', () => {
+  describe('read statements', () => {
+    it.each<[DbType, string]>([
+      ['mssql', 'SELECT * FROM dbo.orders WHERE id = 1'],
+      ['mssql', 'WITH recent AS (SELECT TOP 10 * FROM dbo.orders) SELECT * FROM recent'],
+      ['mssql', "SELECT REPLACE(name, 'a', 'b'), LEFT(name, 2) FROM dbo.customers"],
+      ['mssql', "SELECT 'DROP TABLE x' AS text -- DELETE FROM t\n/* UPDATE t SET x = 1 */"],
+      ['mssql', 'SELECT [update], t.[delete] FROM dbo.t AS t'],
+      ['mssql', 'SELECT o.update FROM sys.objects o'],
+      ['mssql', 'SELECT * INTO #recent FROM dbo.orders'],
+      ['mssql', 'DECLARE @n int; SET @n = 1; SELECT @n'],
+      ['mssql', 'EXEC sp_help'],
+      ['mssql', 'EXEC @rc = sys.sp_helptext N\'dbo.report\''],
+      ['mssql', 'sp_spaceused'],
+      ['mssql', 'master.sys.sp_who2'],
+      ['postgres', 'EXPLAIN ANALYZE SELECT * FROM orders'],
+      ['postgres', "SELECT E'it\\'s DROP', $tag$ DELETE FROM t $tag$"],
+      ['postgres', 'SELECT * FROM orders FOR UPDATE'],
+      ['postgres', 'SELECT * FROM orders FOR NO KEY UPDATE OF orders SKIP LOCKED'],
+      ['postgres', 'SHOW search_path'],
+      ['mysql', 'SELECT TRUNCATE(price, 2) FROM orders # DELETE FROM orders'],
+      ['mysql', "SELECT \"it\\\"s\" /* DROP TABLE t */"],
+      ['mysql', 'SELECT * FROM orders FOR UPDATE'],
+      ['mysql', 'SELECT 1 -- DELETE FROM t'],
+      ['mysql', 'SELECT 1 --\tDELETE FROM t'],
+    ])('%s: %s', (dialect, sql) => {
+      expect(category(sql, dialect)).toBe('read');
+    });
+  });
+
+  describe('mutating statements', () => {
+    it.each<[DbType, string, StatementCategory]>([
+      ['mssql', 'SELECT 1 DROP TABLE dbo.x', 'ddl'],
+      ['mssql', 'UPDATE dbo.orders SET total = 0', 'write'],
+      ['mssql', 'SELECT * INTO dbo.copy FROM dbo.orders', 'write'],
+      ['mssql', 'EXEC sp_configure', 'admin'],
+      ['mssql', 'BEGIN TRAN; DELETE FROM t; COMMIT', 'admin'],
+      ['postgres', 'INSERT INTO t VALUES (1) ON CONFLICT DO NOTHING', 'write'],
+      ['postgres', 'SELECT pg_terminate_backend(123)', 'admin'],
+      ['postgres', 'SET statement_timeout = 0', 'admin'],
+      ['mysql', 'CREATE TABLE t (id int)', 'ddl'],
+    ])('%s: %s', (dialect, sql, expected) => {
+      expect(category(sql, dialect)).toBe(expected);
+    });
+  });
+
+  describe('bypasses', () => {
+    it.each<[DbType, string]>([
+      ['mssql', "sp_executesql N'DROP TABLE dbo.x'"],
+      ['mssql', "sp_configure 'show advanced options', 1"],
+      ['mssql', "; [sp_configure] 'show advanced options', 1"],
+      ['mssql', "master.dbo.xp_cmdshell 'dir'"],
+      ['mssql', "SELECT * FROM OPENROWSET('SQLNCLI', 'Server=x', 'SELECT 1')"],
+      ['postgres', 'SELECT pg_catalog.pg_terminate_backend(123)'],
+      ['postgres', "SELECT pg_catalog.set_config('default_transaction_read_only', 'off', false)"],
+      ['postgres', 'SELECT "pg_catalog"."set_config"(\'x\', \'y\', false)'],
+      ['mysql', '/*! DELETE FROM t */'],
+      ['mysql', 'SELECT 1 /*!50001 ; DELETE FROM t */'],
+      ['mysql', 'SELECT 1 /*M!100100 ; DROP TABLE t */'],
+      ['mysql', "SELECT 1 --1 INTO OUTFILE '/tmp/x'"],
+      ['mysql', 'SELECT 1 --\tx\n; DELETE FROM t'],
+    ])('%s: %s', (dialect, sql) => {
+      expect(category(sql, dialect)).not.toBe('read');
+    });
+  });
+});
+
+describe('StatementPolicyService.enforce', () => {
+  it('rejects non-read statements under the read-only policy', () => {
+    expect(() => policy.enforce("sp_executesql N'DROP TABLE dbo.x'", 'mssql')).toThrow(StatementPolicyError);
+  });
+
+  it('allows everything under the unrestricted policy', () => {
+    const unrestricted = new StatementPolicyService('unrestricted');
+    expect(unrestricted.enforce('DROP TABLE t', 'postgres').category).toBe('ddl');
+  });
+});
+
+describe('StatementPolicyService.findTransactionEscapes', () => {
+  const escapes = (sql: string, dialect: DbType) => policy.findTransactionEscapes(sql, dialect).map(f => f.keyword);
+
+  it.each<[DbType, string, string[]]>([
+    ['mssql', 'COMMIT; DELETE FROM t', ['COMMIT']],
+    ['mssql', 'SELECT 1; ROLLBACK TRAN; UPDATE t SET x = 1', ['ROLLBACK']],
+    ['mssql', 'SAVE TRANSACTION sp1', ['SAVE']],
+    ['mssql', "EXEC('DELETE FROM t')", ['EXEC']],
+    ['mssql', "EXECUTE (@sql)", ['EXECUTE']],
+    ['mssql', "EXEC sys.sp_executesql N'DELETE FROM t'", ['EXEC', 'SP_EXECUTESQL']],
+    ['mssql', "[sp_executesql] N'DELETE FROM t'", ['SP_EXECUTESQL']],
+    ['postgres', 'END; SET TRANSACTION READ WRITE', ['END', 'SET']],
+    ['postgres', 'ABORT', ['ABORT']],
+    ['mysql', 'BEGIN', ['BEGIN']],
+    ['mssql', 'EXEC dbo.archive_orders @days = 30', ['EXEC']],
+    ['mssql', 'EXECUTE @rc = archive_orders', ['EXECUTE']],
+    ['mssql', 'dbo.archive_orders 30', ['ARCHIVE_ORDERS']],
+    ['mysql', 'CALL archive_orders(30)', ['CALL']],
+    ['mysql', 'SELECT 1 /*! ; COMMIT */', ['COMMIT']],
+  ])('%s: %s', (dialect, sql, expected) => {
+    expect(escapes(sql, dialect)).toEqual(expected);
+  });
+
+  it.each<[DbType, string]>([
+    ['mssql', 'SELECT [commit], t.rollback FROM dbo.t AS t'],
+    ['mssql', "SELECT 'COMMIT' AS word -- ROLLBACK"],
+    ['mssql', 'IF 1 = 1 BEGIN SELECT 1 END'],
+    ['mssql', 'EXEC sp_help'],
+    ['mssql', "sys.sp_helptext N'dbo.report'"],
+    ['postgres', 'CALL refresh_stats()'],
+    ['postgres', "SELECT $$ COMMIT $$"],
+  ])('%s: %s', (dialect, sql) => {
+    expect(escapes(sql, dialect)).toEqual([]);
+  });
+});
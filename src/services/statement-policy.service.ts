@@ -0,0 +1,548 @@
+/**
+ * SQL Statement Policy Service
+ *
+ * Classifies SQL text as read / write / DDL / admin so the agent can refuse
+ * mutating statements on the legacy `payload.query` path (no catalog loaded).
+ *
+ * The classifier is a tokenizer, not a parser: it skips comments, string
+ * literals and quoted identifiers for the given dialect, then looks for
+ * statement keywords anywhere in the batch. T-SQL batches don't need `;`
+ * between statements, so position-independent scanning is what makes
+ * `SELECT 1 DROP TABLE x` fail closed. A batch that starts with anything but
+ * a statement keyword is a bare procedure call (T-SQL runs `sp_name args`
+ * without EXEC) and is only allowed for known metadata procedures.
+ */
+import { DbType, LegacyQueryPolicy, StatementCategory } from '../types/index.js';
+import { logger } from '../utils/logger.js';
+
+export interface StatementFinding {
+  keyword: string;
+  category: StatementCategory;
+  position: number;       // Character offset in the SQL text
+}
+
+export interface StatementClassification {
+  category: StatementCategory;    // Most severe finding ('read' if none)
+  findings: StatementFinding[];
+}
+
+/**
+ * Error thrown when a statement is rejected by the local policy
+ */
+export class StatementPolicyError extends Error {
+  constructor(
+    message: string,
+    public code: 'STATEMENT_NOT_ALLOWED',
+    public classification: StatementClassification
+  ) {
+    super(message);
+    this.name = 'StatementPolicyError';
+  }
+}
+
+interface Token {
+  type: 'word' | 'quoted' | 'punct';
+  value: string;          // Uppercased for words
+  position: number;
+}
+
+const SEVERITY: Record<StatementCategory, number> = { read: 0, write: 1, ddl: 2, admin: 3 };
+
+const KEYWORD_CATEGORIES: Record<string, StatementCategory> = {
+  INSERT: 'write', UPDATE: 'write', DELETE: 'write', MERGE: 'write', REPLACE: 'write',
+  UPSERT: 'write', COPY: 'write',
+  CREATE: 'ddl', ALTER: 'ddl', DROP: 'ddl', TRUNCATE: 'ddl', RENAME: 'ddl',
+  GRANT: 'admin', REVOKE: 'admin', DENY: 'admin', EXEC: 'admin', EXECUTE: 'admin',
+  CALL: 'admin', BACKUP: 'admin', RESTORE: 'admin', DBCC: 'admin', KILL: 'admin',
+  SHUTDOWN: 'admin', RECONFIGURE: 'admin', VACUUM: 'admin', ANALYZE: 'admin',
+  CLUSTER: 'admin', REINDEX: 'admin', CHECKPOINT: 'admin', LOCK: 'admin', UNLOCK: 'admin',
+  LOAD: 'admin', IMPORT: 'admin', REFRESH: 'admin', REASSIGN: 'admin', NOTIFY: 'admin',
+  LISTEN: 'admin', DISCARD: 'admin', RESET: 'admin', FLUSH: 'admin', PURGE: 'admin',
+  OPTIMIZE: 'admin', REPAIR: 'admin', INSTALL: 'admin', UNINSTALL: 'admin', BULK: 'admin',
+  USE: 'admin', COMMIT: 'admin', ROLLBACK: 'admin', SAVEPOINT: 'admin', RELEASE: 'admin',
+  PREPARE: 'admin', DEALLOCATE: 'admin',
+};
+
+// Keywords that double as scalar functions, e.g. REPLACE(s, 'a', 'b') / mysql TRUNCATE(x, 2)
+const FUNCTION_KEYWORDS = new Set(['REPLACE', 'INSERT', 'TRUNCATE', 'LEFT', 'UPDATE']);
+
+// Functions with side effects that would otherwise hide inside a SELECT
+const ADMIN_FUNCTIONS = new Set([
+  'PG_TERMINATE_BACKEND', 'PG_CANCEL_BACKEND', 'PG_RELOAD_CONF', 'PG_ROTATE_LOGFILE',
+  'SET_CONFIG', 'PG_READ_FILE', 'PG_READ_BINARY_FILE', 'PG_LS_DIR', 'LO_IMPORT', 'LO_EXPORT',
+  'LO_UNLINK', 'DBLINK_EXEC', 'PG_SWITCH_WAL', 'PG_CREATE_RESTORE_POINT', 'NEXTVAL', 'SETVAL',
+  'XP_CMDSHELL', 'XP_REGWRITE', 'OPENROWSET', 'OPENDATASOURCE', 'OPENQUERY', 'LOAD_FILE',
+]);
+
+// Read-only system procedures allowed after EXEC on SQL Server
+const METADATA_PROCEDURES = new Set([
+  'SP_HELP', 'SP_HELPTEXT', 'SP_HELPINDEX', 'SP_HELPDB', 'SP_HELPFILE', 'SP_HELPCONSTRAINT',
+  'SP_HELPSTATS', 'SP_COLUMNS', 'SP_TABLES', 'SP_STORED_PROCEDURES', 'SP_FKEYS', 'SP_PKEYS',
+  'SP_STATISTICS', 'SP_WHO', 'SP_WHO2', 'SP_LOCK', 'SP_SPACEUSED', 'SP_DATABASES',
+  'SP_SERVER_INFO', 'SP_DESCRIBE_FIRST_RESULT_SET',
+]);
+
+// Statement keywords that may start a read batch (everything else leading is a procedure call)
+const STATEMENT_KEYWORDS = new Set([
+  'SELECT', 'WITH', 'VALUES', 'TABLE', 'SHOW', 'DESCRIBE', 'DESC', 'EXPLAIN', 'HELP', 'CHECK',
+  'DECLARE', 'SET', 'IF', 'ELSE', 'WHILE', 'BEGIN', 'END', 'START', 'DO', 'RETURN', 'BREAK',
+  'CONTINUE', 'GOTO', 'WAITFOR', 'PRINT', 'RAISERROR', 'THROW', 'TRY', 'CATCH', 'SAVE',
+  'OPEN', 'FETCH', 'MOVE', 'CLOSE', 'COMMENT',
+]);
+
+// Transaction-control words that follow BEGIN / START
+const TRANSACTION_WORDS = new Set(['TRAN', 'TRANSACTION', 'WORK', 'DISTRIBUTED']);
+
+// Statements whose next identifier is the object they modify
+const TARGET_SKIP_WORDS = new Set(['INTO', 'FROM', 'TABLE', 'IF', 'EXISTS', 'NOT', 'TOP', 'ONLY']);
+
+export class StatementPolicyService {
+  private policy: LegacyQueryPolicy;
+
+  constructor(policy: LegacyQueryPolicy) {
+    this.policy = policy;
+  }
+
+  /**
+   * Check a legacy (non-template) query against the local policy.
+   * Throws StatementPolicyError if the policy rejects it.
+   */
+  enforce(sql: string, dialect: DbType): StatementClassification {
+    const classification = this.classify(sql, dialect);
+    const summary = this.describe(classification);
+
+    if (this.policy === 'unrestricted' || classification.category === 'read') {
+      logger.info(`Legacy query allowed: ${summary} (policy: ${this.policy})`);
+      return classification;
+    }
+
+    logger.warn(`Legacy query REJECTED: ${summary} (policy: ${this.policy})`);
+    throw new StatementPolicyError(
+      `Statement not allowed on legacy query path - ${summary}`,
+      'STATEMENT_NOT_ALLOWED',
+      classification
+    );
+  }
+
+  /**
+   * Every category present in a SQL batch ('read' if nothing mutates), so a
+   * rule on one class can't be dodged by adding a more severe statement
+   */
+  categories(sql: string, dialect: DbType): Set<StatementCategory> {
+    const { findings } = this.classify(sql, dialect);
+    return new Set(findings.length > 0 ? findings.map(finding => finding.category) : ['read']);
+  }
+
+  /**
+   * Classify a SQL batch. The result's category is the most severe finding.
+   */
+  classify(sql: string, dialect: DbType): StatementClassification {
+    const tokens = this.tokenize(sql, dialect);
+    const findings: StatementFinding[] = [];
+    let lastDml = '';
+
+    const procedureCall = this.leadingProcedureCall(tokens);
+    if (procedureCall) {
+      findings.push(procedureCall);
+    }
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (token.type === 'punct') continue;
+
+      const prev = tokens[i - 1];
+      const next = tokens[i + 1];
+      const isCall = next?.value === '(';
+
+      // Side-effect functions are matched on the last part of a (possibly
+      // schema-qualified or quoted) name: pg_catalog.set_config(...), master.dbo.xp_cmdshell
+      const name = token.value.toUpperCase();
+      if (next?.value !== '.' && ADMIN_FUNCTIONS.has(name) && (isCall || name.startsWith('XP_'))) {
+        findings.push({ keyword: name, category: 'admin', position: token.position });
+        continue;
+      }
+
+      // Qualified names (t.update, sys.objects) are identifiers, not keywords
+      if (token.type !== 'word' || prev?.value === '.') continue;
+
+      const word = token.value;
+
+      if (word === 'SELECT' || word === 'INSERT' || word === 'REPLACE' || word === 'MERGE') {
+        if (!isCall) lastDml = word;
+      }
+
+      const category = this.categorize(tokens, i, dialect, lastDml);
+      if (category) {
+        findings.push({ keyword: word, category, position: token.position });
+      }
+    }
+
+    const category = findings.reduce<StatementCategory>(
+      (worst, f) => (SEVERITY[f.category] > SEVERITY[worst] ? f.category : worst),
+      'read'
+    );
+
+    return { category, findings };
+  }
+
+  /**
+   * Statements that could end or escape the read-only transaction a batch is
+   * wrapped in: transaction control (COMMIT, ROLLBACK, SAVE TRAN, ...), dynamic
+   * SQL whose text can't be inspected (EXEC('...'), sp_executesql) and stored
+   * procedure calls, whose body may commit (SQL Server and MySQL; PostgreSQL
+   * refuses transaction control in a procedure called inside a transaction).
+   * Applies to templates as well as legacy queries.
+   */
+  findTransactionEscapes(sql: string, dialect: DbType): StatementFinding[] {
+    const tokens = this.tokenize(sql, dialect);
+    const findings: StatementFinding[] = [];
+
+    // Bare procedure call at the start of a T-SQL batch (sp_executesql is caught below)
+    const procedureCall = dialect === 'mssql' ? this.leadingProcedureCall(tokens) : null;
+    if (procedureCall && procedureCall.keyword !== 'SP_EXECUTESQL') {
+      findings.push(procedureCall);
+    }
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (token.type === 'punct') continue;
+
+      const prev = tokens[i - 1]?.value;
+      const next = tokens[i + 1]?.value;
+      const name = token.value.toUpperCase();
+
+      // sp_executesql under any qualification (sys.sp_executesql, [sp_executesql])
+      if (name === 'SP_EXECUTESQL' && next !== '.') {
+        findings.push({ keyword: name, category: 'admin', position: token.position });
+        continue;
+      }
+      if (token.type !== 'word' || prev === '.') continue;
+
+      if (this.isTransactionEscape(tokens, i, dialect)) {
+        findings.push({ keyword: name, category: 'admin', position: token.position });
+      }
+    }
+
+    return findings;
+  }
+
+  private isTransactionEscape(tokens: Token[], i: number, dialect: DbType): boolean {
+    const word = tokens[i].value;
+    const next = tokens[i + 1];
+
+    switch (word) {
+      case 'COMMIT':
+      case 'ROLLBACK':
+      case 'SAVEPOINT':
+        return true;
+      case 'SAVE':
+      case 'BEGIN':
+      case 'START':
+        // SAVE TRAN / BEGIN TRAN / START TRANSACTION; bare BEGIN is a block on SQL Server only
+        return (next !== undefined && TRANSACTION_WORDS.has(next.value)) || (word === 'BEGIN' && dialect !== 'mssql');
+      case 'RELEASE':
+        return next?.value === 'SAVEPOINT';
+      case 'END':
+      case 'ABORT':
+        // PostgreSQL synonyms for COMMIT / ROLLBACK
+        return dialect === 'postgres';
+      case 'SET':
+        // SET TRANSACTION READ WRITE / SET SESSION CHARACTERISTICS (T-SQL SET TRANSACTION only sets isolation)
+        return dialect !== 'mssql' && (next?.value === 'TRANSACTION' || next?.value === 'SESSION');
+      case 'EXEC':
+      case 'EXECUTE':
+        // EXEC('...') / EXEC (@sql) - dynamic SQL; EXEC proc_name unless it is a known metadata procedure
+        return next?.value === '(' || !this.isMetadataProcedure(tokens, i);
+      case 'CALL':
+        return dialect === 'mysql';
+    }
+    return false;
+  }
+
+  /**
+   * Whether the character after a MySQL `--` makes it a comment (end of input counts)
+   */
+  private isCommentDashEnd(sql: string, index: number): boolean {
+    const code = sql.charCodeAt(index);
+    return Number.isNaN(code) || code <= 0x20 || code === 0x7f || /\s/.test(sql[index]);
+  }
+
+  /**
+   * Category for the keyword at tokens[i], or null if it doesn't mutate anything
+   */
+  private categorize(tokens: Token[], i: number, dialect: DbType, lastDml: string): StatementCategory | null {
+    const word = tokens[i].value;
+    const prev = tokens[i - 1]?.value;
+    const next = tokens[i + 1];
+
+    if (FUNCTION_KEYWORDS.has(word) && next?.value === '(') {
+      return null;
+    }
+
+    switch (word) {
+      case 'INTO':
+        // SELECT ... INTO creates/fills a table; INSERT INTO is already flagged
+        if (lastDml !== 'SELECT') return null;
+        return this.targetsTempObject(tokens, i, dialect) ? null : 'write';
+
+      case 'BEGIN':
+      case 'START':
+        // T-SQL BEGIN ... END is a block; BEGIN TRAN / START TRANSACTION is transaction control
+        if (next && TRANSACTION_WORDS.has(next.value)) return 'admin';
+        return word === 'BEGIN' && dialect !== 'mssql' ? 'admin' : null;
+
+      case 'SET':
+        // T-SQL SET covers variables and session options; elsewhere it changes pooled session state
+        return dialect === 'mssql' ? null : 'admin';
+
+      case 'COMMENT':
+        return next?.value === 'ON' ? 'ddl' : null;
+
+      case 'DO':
+        // PostgreSQL anonymous block - but not INSERT ... ON CONFLICT DO NOTHING/UPDATE
+        return prev === 'CONFLICT' ? null : 'admin';
+
+      case 'ANALYZE':
+        // EXPLAIN ANALYZE / EXPLAIN (ANALYZE ...) - the explained statement is classified on its own
+        return prev === 'EXPLAIN' || prev === '(' || prev === ',' ? null : 'admin';
+
+      case 'EXEC':
+      case 'EXECUTE':
+        return this.isMetadataProcedure(tokens, i) ? null : 'admin';
+
+      case 'RELEASE':
+        return next?.value === 'SAVEPOINT' ? 'admin' : null;
+
+      case 'UPDATE':
+        // Row-locking clause: SELECT ... FOR UPDATE / FOR NO KEY UPDATE
+        if (prev === 'FOR' || (prev === 'KEY' && tokens[i - 2]?.value === 'NO' && tokens[i - 3]?.value === 'FOR')) {
+          return null;
+        }
+        break;
+    }
+
+    const category = KEYWORD_CATEGORIES[word];
+    if (!category) return null;
+
+    if ((category === 'write' || category === 'ddl') && this.targetsTempObject(tokens, i, dialect)) {
+      return null;
+    }
+
+    return category;
+  }
+
+  /**
+   * True if the statement at tokens[i] targets a session-scoped object:
+   * #temp tables and @table variables (T-SQL) or CREATE TEMP TABLE (PostgreSQL / MySQL).
+   */
+  private targetsTempObject(tokens: Token[], i: number, dialect: DbType): boolean {
+    let j = i + 1;
+
+    if (tokens[i].value === 'CREATE') {
+      if (tokens[j]?.value === 'TEMP' || tokens[j]?.value === 'TEMPORARY') return true;
+      if (tokens[j]?.value !== 'TABLE') return false;
+    }
+
+    while (j < tokens.length && tokens[j].type === 'word' && TARGET_SKIP_WORDS.has(tokens[j].value)) {
+      j++;
+    }
+
+    const target = tokens[j];
+    if (!target || target.type !== 'word') return false;
+    return dialect === 'mssql' && (target.value.startsWith('#') || target.value.startsWith('@'));
+  }
+
+  /**
+   * EXEC [@rc =] [db.][schema.]sp_name - allowed only for known read-only system procedures
+   */
+  private isMetadataProcedure(tokens: Token[], i: number): boolean {
+    let j = i + 1;
+    if (tokens[j]?.value.startsWith('@') && tokens[j + 1]?.value === '=') {
+      j += 2;
+    }
+
+    const name = this.procedureName(tokens, j);
+    return name !== undefined && METADATA_PROCEDURES.has(name);
+  }
+
+  /**
+   * Finding for a batch that starts with a bare [db.][schema.]name instead of a
+   * statement keyword - a procedure call without EXEC on SQL Server
+   */
+  private leadingProcedureCall(tokens: Token[]): StatementFinding | null {
+    let j = 0;
+    while (tokens[j]?.value === ';') j++;
+
+    const first = tokens[j];
+    if (!first || first.type === 'punct') return null;
+    if (first.type === 'word' && (STATEMENT_KEYWORDS.has(first.value) || KEYWORD_CATEGORIES[first.value])) {
+      return null;
+    }
+
+    const name = this.procedureName(tokens, j) ?? first.value.toUpperCase();
+    if (METADATA_PROCEDURES.has(name)) return null;
+    return { keyword: name, category: 'admin', position: first.position };
+  }
+
+  /**
+   * Last part of the dotted name starting at tokens[j], uppercased
+   */
+  private procedureName(tokens: Token[], j: number): string | undefined {
+    let name: string | undefined;
+    while (j < tokens.length && (tokens[j].type === 'word' || tokens[j].type === 'quoted')) {
+      name = tokens[j].value.toUpperCase();
+      if (tokens[j + 1]?.value !== '.') break;
+      j += 2;
+    }
+    return name;
+  }
+
+  private describe(classification: StatementClassification): string {
+    if (classification.findings.length === 0) {
+      return 'read';
+    }
+    const keywords = [...new Set(classification.findings.map(f => f.keyword))].join(', ');
+    return `${classification.category} (${keywords})`;
+  }
+
+  /**
+   * Split SQL into words, quoted identifiers and punctuation, dropping
+   * whitespace, comments and string literals. The bodies of MySQL executable
+   * comments (`/*! ... *\/`, `/*M! ... *\/`) are tokenized - the server runs them.
+   */
+  private tokenize(sql: string, dialect: DbType): Token[] {
+    const tokens: Token[] = [];
+    const length = sql.length;
+    let inExecutableComment = false;
+    let i = 0;
+
+    while (i < length) {
+      const ch = sql[i];
+      const next = sql[i + 1];
+
+      // End of a MySQL executable comment (they don't nest)
+      if (inExecutableComment && ch === '*' && next === '/') {
+        inExecutableComment = false;
+        i += 2;
+        continue;
+      }
+
+      // Whitespace
+      if (/\s/.test(ch)) {
+        i++;
+        continue;
+      }
+
+      // Line comments (-- everywhere, # on MySQL). MySQL only reads -- as a comment
+      // when whitespace or a control character follows: `SELECT 1 --1` is 1 - (-1)
+      const lineComment = ch === '-' && next === '-' && (dialect !== 'mysql' || this.isCommentDashEnd(sql, i + 2));
+      if (lineComment || (ch === '#' && dialect === 'mysql')) {
+        const end = sql.indexOf('\n', i);
+        i = end === -1 ? length : end + 1;
+        continue;
+      }
+
+      // Block comments (nested on SQL Server and PostgreSQL)
+      if (ch === '/' && next === '*') {
+        // MySQL /*!50001 ... */ and MariaDB /*M!100100 ... */: skip the marker and version only
+        const executable = dialect === 'mysql' && !inExecutableComment ? /^\/\*M?!\d*/.exec(sql.slice(i, i + 16)) : null;
+        if (executable) {
+          inExecutableComment = true;
+          i += executable[0].length;
+          continue;
+        }
+        i = this.skipBlockComment(sql, i, dialect !== 'mysql');
+        continue;
+      }
+
+      // String literals
+      if (ch === '\'') {
+        const backslashEscapes = dialect === 'mysql' || this.isEscapeStringPrefix(tokens, i);
+        i = this.skipQuoted(sql, i, '\'', backslashEscapes);
+        continue;
+      }
+      if (ch === '"' && dialect === 'mysql') {
+        i = this.skipQuoted(sql, i, '"', true);
+        continue;
+      }
+
+      // PostgreSQL dollar-quoted strings ($$...$$, $tag$...$tag$)
+      if (ch === '$' && dialect === 'postgres') {
+        const tag = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i, i + 64));
+        if (tag) {
+          const end = sql.indexOf(tag[0], i + tag[0].length);
+          i = end === -1 ? length : end + tag[0].length;
+          continue;
+        }
+      }
+
+      // Quoted identifiers
+      const closeQuote = ch === '"' ? '"' : ch === '[' && dialect === 'mssql' ? ']' : ch === '`' && dialect === 'mysql' ? '`' : null;
+      if (closeQuote) {
+        const end = this.skipQuoted(sql, i, closeQuote, false);
+        tokens.push({ type: 'quoted', value: sql.slice(i + 1, end - 1), position: i });
+        i = end;
+        continue;
+      }
+
+      // Words: keywords, identifiers, @variables, #temp tables (T-SQL)
+      const wordStart = dialect === 'mssql' ? /[A-Za-z_@#]/ : /[A-Za-z_@]/;
+      if (wordStart.test(ch)) {
+        let end = i + 1;
+        while (end < length && /[A-Za-z0-9_@#$]/.test(sql[end])) end++;
+        tokens.push({ type: 'word', value: sql.slice(i, end).toUpperCase(), position: i });
+        i = end;
+        continue;
+      }
+
+      tokens.push({ type: 'punct', value: ch, position: i });
+      i++;
+    }
+
+    return tokens;
+  }
+
+  // PostgreSQL E'...' strings use backslash escapes
+  private isEscapeStringPrefix(tokens: Token[], quotePosition: number): boolean {
+    const last = tokens[tokens.length - 1];
+    return last?.type === 'word' && last.value === 'E' && last.position === quotePosition - 1;
+  }
+
+  private skipQuoted(sql: string, start: number, quote: string, backslashEscapes: boolean): number {
+    let i = start + 1;
+    while (i < sql.length) {
+      if (backslashEscapes && sql[i] === '\\') {
+        i += 2;
+        continue;
+      }
+      if (sql[i] === quote) {
+        // Doubled quote is an escaped quote
+        if (sql[i + 1] === quote) {
+          i += 2;
+          continue;
+        }
+        return i + 1;
+      }
+      i++;
+    }
+    return sql.length;
+  }
+
+  private skipBlockComment(sql: string, start: number, nested: boolean): number {
+    let depth = 0;
+    let i = start;
+    while (i < sql.length) {
+      if (sql[i] === '/' && sql[i + 1] === '*') {
+        depth = nested ? depth + 1 : 1;
+        i += 2;
+      } else if (sql[i] === '*' && sql[i + 1] === '/') {
+        depth--;
+        i += 2;
+        if (depth === 0) return i;
+      } else {
+        i++;
+      }
+    }
+    return sql.length;
+  }
+}
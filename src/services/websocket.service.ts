@@ -3,14 +3,62 @@ import https from 'https';
 import fs from 'fs/promises';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
-import { AppConfig, Message, SqlExecutePayload, FileReadPayload, FileListPayload, FileSearchPayload, CatalogSyncPayload } from '../types/index.js';
-import { SqlService } from './sql.service.js';
+import { AppConfig, Message, SqlExecutePayload, SqlTestConnectionPayload, SqlCancelPayload, SqlResultPayload, FileReadPayload, FileListPayload, FileSearchPayload, CatalogSyncPayload, CatalogRejectedPayload, QueryCatalog, KeyringUpdatePayload, ProbeRegisterPayload, ProbeRegisteredPayload, ConfigSyncPayload, InvalidPayloadResponse, MessageEncoding } from '../types/index.js';
+import { SqlService, QueryCancelledError, DEFAULT_TARGET_ID } from './sql.service.js';
+import { describeSqlError } from './drivers/sql-error.js';
+import { capResultSets } from './drivers/result-chunker.js';
+import { BoundQuery } from './drivers/db-driver.interface.js';
 import { FileService } from './file.service.js';
 import { AllowlistService, AllowlistValidationError } from './allowlist.service.js';
+import { KeyringService, KeyringError } from './keyring.service.js';
+import { StatementPolicyService, StatementPolicyError } from './statement-policy.service.js';
+import { DenyListService } from './deny-list.service.js';
+import { AuditLogService, AuditAction, AuditVerdict } from './audit-log.service.js';
 import { logger } from '../utils/logger.js';
+import { runWithRequestContext } from '../utils/request-context.js';
+import { ConcurrencyLimiter, AgentBusyError, ActionClass } from './concurrency-limiter.js';
+import { SqlUnavailableError } from './circuit-breaker.js';
+import { ResponseBuffer } from './response-buffer.js';
+import { validateEnvelope, validatePayload, PayloadValidationError } from './message-validator.js';
+import { MessageCodec } from './message-codec.js';
+import { AGENT_VERSION, PROTOCOL_VERSION, MIN_PROTOCOL_VERSION, PROTOCOL_FEATURES, ProtocolFeature, buildCapabilities } from '../protocol.js';
 
 // Path for persisting auth config received from server
 const AUTH_CONFIG_PATH = path.join(process.cwd(), 'config', 'auth-config.json');
+// Path for persisting the last verified query catalog
+const CATALOG_PATH = path.join(process.cwd(), 'config', 'query-catalog.json');
+// Path for persisting the catalog version high-water mark
+const CATALOG_STATE_PATH = path.join(process.cwd(), 'config', 'catalog-state.json');
+// Path for persisting applied keyring updates
+const KEYRING_PATH = path.join(process.cwd(), 'config', 'keyring.json');
+// Path for persisting the local operator deny-list
+const DENY_LIST_PATH = path.join(process.cwd(), 'config', 'deny-list.json');
+// Active audit log file (rotated files are kept alongside it)
+const AUDIT_LOG_PATH = path.join(process.cwd(), 'config', 'audit', 'audit.jsonl');
+
+// Requests recorded in the audit log
+const AUDITED_ACTIONS = new Set<string>(['sql.execute', 'file.read', 'file.list', 'file.search']);
+
+// Requests subject to per-class concurrency limits (sql.cancel must never wait behind them)
+const ACTION_CLASSES: Record<string, ActionClass> = {
+  'sql.execute': 'sql',
+  'sql.testConnection': 'sql',
+  'file.read': 'file',
+  'file.list': 'file',
+  'file.search': 'file',
+  'file.getStructure': 'file',
+};
+
+// What handleSqlExecute resolved before it returned, for the audit log
+interface SqlExecutionTrace {
+  templateHash: string | null;
+  sql: string | null;
+  params: Record<string, unknown> | null;
+}
+
+// Close codes after which reconnecting is pointless
+const CLOSE_AUTH_FAILED = 4001;
+const CLOSE_PROTOCOL_UNSUPPORTED = 4002;
 
 const RECONNECT_INITIAL_DELAY = 1000;
 const RECONNECT_MAX_DELAY = 30000;
@@ -24,17 +72,40 @@ interface PendingRequest {
 // Catalog refresh interval (50 minutes - before 60-min expiration)
 const CATALOG_REFRESH_INTERVAL = 50 * 60 * 1000;
 
+// Pause streaming while this many bytes are still queued on the socket
+const STREAM_HIGH_WATER_MARK = 4 * 1024 * 1024;
+
+// Undelivered responses kept for replay (besides the WS_RESUME_WINDOW_SECONDS age limit)
+const RESPONSE_BUFFER_MAX_ENTRIES = 200;
+const RESPONSE_BUFFER_MAX_BYTES = 32 * 1024 * 1024;
+// Replay anyway if the server does not answer probe.register in time
+const REGISTER_RESPONSE_TIMEOUT = 10000;
+
 export class WebSocketService {
   private socket: WebSocket | null = null;
   private config: AppConfig;
   private sqlService: SqlService;
   private fileService: FileService;
+  private keyring: KeyringService;
   private allowlistService: AllowlistService;
+  private statementPolicy: StatementPolicyService;
+  private denyList: DenyListService;
+  private auditLog: AuditLogService;
+  private limiters: Record<ActionClass, ConcurrencyLimiter>;
+  private responseBuffer: ResponseBuffer;
+  private codec: MessageCodec;
+  private resumeToken: string | null = null;
+  private registerTimeout: NodeJS.Timeout | null = null;
+  // Protocol agreed with the server (ours until config.sync says otherwise)
+  private negotiatedProtocol = PROTOCOL_VERSION;
+  private protocolError: string | null = null;
   private reconnectAttempts = 0;
   private heartbeatInterval: NodeJS.Timeout | null = null;
   private catalogRefreshInterval: NodeJS.Timeout | null = null;
   private _isConnected = false;
   private pendingRequests = new Map<string, PendingRequest>();
+  // In-flight sql.execute requests by message id (for sql.cancel)
+  private activeQueries = new Map<string, AbortController>();
   private _authRequired = false;
 
   // Callback for connection status changes
@@ -46,8 +117,40 @@ export class WebSocketService {
     this.config = config;
     this.sqlService = sqlService;
     this.fileService = fileService;
-    // Initialize allowlist service with CA certificate (for signature verification)
-    this.allowlistService = new AllowlistService(config.caCertificate || '');
+    // Keyring rooted in the CA certificate (for catalog signature verification)
+    this.keyring = new KeyringService(config.caCertificate || '', KEYRING_PATH);
+    this.allowlistService = new AllowlistService(this.keyring, {
+      catalogPath: CATALOG_PATH,
+      statePath: CATALOG_STATE_PATH,
+      clockSkewSeconds: config.catalogClockSkew,
+    });
+    this.statementPolicy = new StatementPolicyService(config.legacyQueryPolicy);
+    this.denyList = new DenyListService(DENY_LIST_PATH);
+    this.auditLog = new AuditLogService(AUDIT_LOG_PATH, {
+      maxBytes: config.auditLogMaxBytes,
+      maxFiles: config.auditLogMaxFiles,
+    });
+    this.limiters = {
+      sql: new ConcurrencyLimiter('sql', config.sqlMaxConcurrent, config.sqlMaxQueue),
+      file: new ConcurrencyLimiter('file', config.fileMaxConcurrent, config.fileMaxQueue),
+    };
+    this.responseBuffer = new ResponseBuffer({
+      windowMs: config.wsResumeWindowSeconds * 1000,
+      maxEntries: RESPONSE_BUFFER_MAX_ENTRIES,
+      maxBytes: RESPONSE_BUFFER_MAX_BYTES,
+    });
+    this.codec = new MessageCodec(config.wsCompressionThreshold);
+  }
+
+  /**
+   * Restore persisted keyring, query catalog, deny-list and audit chain head (call once on startup, before connect).
+   * The keyring goes first - the catalog may be signed by one of its keys.
+   */
+  async restoreState(): Promise<void> {
+    await this.keyring.load();
+    await this.allowlistService.loadPersistedCatalog();
+    await this.denyList.load();
+    await this.auditLog.load();
   }
 
   async connect(): Promise<void> {
@@ -78,18 +181,24 @@ export class WebSocketService {
         this._isConnected = true;
         this.reconnectAttempts = 0;
         this.onConnectionChange?.(true);
+        // Every connection starts in JSON; the server may pick another encoding at registration
+        this.codec.setEncoding('json');
+        if (this.socket?.extensions.includes('permessage-deflate')) {
+          logger.info('permessage-deflate negotiated');
+        }
         this.registerProbe();
         this.startHeartbeat();
-        this.syncProjectData();
       });
 
-      this.socket.on('message', (data: WebSocket.Data) => {
+      this.socket.on('message', (data: WebSocket.RawData, isBinary: boolean) => {
+        let parsed: unknown;
         try {
-          const message = JSON.parse(data.toString()) as Message;
-          this.handleMessage(message);
+          parsed = this.codec.decode(data, isBinary);
         } catch (error) {
           logger.error('Failed to parse message:', error);
+          return;
         }
+        this.handleMessage(parsed).catch(error => this.handleMessageFailure(parsed, error));
       });
 
       this.socket.on('close', (code: number, reason: Buffer) => {
@@ -97,9 +206,12 @@ export class WebSocketService {
         this._isConnected = false;
         this.onConnectionChange?.(false);
         this.stopHeartbeat();
+        this.clearRegisterTimeout();
 
-        // Reconnect unless it was an auth failure
-        if (code !== 4001) {
+        // Reconnect unless it was an auth failure or an incompatible server
+        if (code === CLOSE_PROTOCOL_UNSUPPORTED || this.protocolError) {
+          logger.error(`Not reconnecting: ${this.protocolError ?? 'unsupported protocol version'}`);
+        } else if (code !== CLOSE_AUTH_FAILED) {
           this.scheduleReconnect();
         } else {
           if (this.config.authMode === 'certificate') {
@@ -146,7 +258,10 @@ export class WebSocketService {
     }
 
     const url = new URL(baseUrl);
-    const wsOptions: WebSocket.ClientOptions = {};
+    const wsOptions: WebSocket.ClientOptions = {
+      // Offered in the handshake; only used if the server accepts it
+      perMessageDeflate: this.config.wsCompression ? { threshold: this.config.wsCompressionThreshold } : false,
+    };
 
     if (this.config.authMode === 'certificate') {
       // Certificate authentication - send certificate in header
@@ -185,11 +300,86 @@ export class WebSocketService {
     return { wsUrl: url.toString(), wsOptions };
   }
 
-  private async handleMessage(message: Message): Promise<void> {
+  /**
+   * Validate a parsed message and handle it inside its request context, so
+   * log lines written while serving it carry the message id, action and toolId
+   */
+  private async handleMessage(data: unknown): Promise<void> {
+    try {
+      validateEnvelope(data);
+    } catch (error) {
+      this.rejectEnvelope(data, error as PayloadValidationError);
+      return;
+    }
+
+    const message = data;
+    const toolId = (message.payload as { toolId?: unknown } | null | undefined)?.toolId;
+    return runWithRequestContext({
+      requestId: message.id,
+      action: message.action,
+      ...(typeof toolId === 'string' ? { toolId } : {}),
+    }, () => this.dispatchMessage(message));
+  }
+
+  /**
+   * Last resort for a message whose handling failed unexpectedly: log it and,
+   * if it is a request, answer with the error so the server isn't left waiting
+   */
+  private handleMessageFailure(data: unknown, error: unknown): void {
+    const raw = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>;
+    logger.error(`Failed to handle message ${typeof raw.id === 'string' ? raw.id : '(no id)'}:`, error);
+
+    if (typeof raw.id !== 'string' || !raw.id || raw.type !== 'request') {
+      return;
+    }
+    const action = typeof raw.action === 'string' && raw.action ? raw.action : 'unknown';
+    try {
+      this.sendResponse(raw.id, action, { error: error instanceof Error ? error.message : 'Unknown error' });
+    } catch (sendError) {
+      logger.error(`Failed to answer message ${raw.id}:`, sendError);
+    }
+  }
+
+  /**
+   * Answer a message whose envelope is malformed, if it has an id to answer to
+   * and is not itself a response or event
+   */
+  private rejectEnvelope(data: unknown, error: PayloadValidationError): void {
+    const raw = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>;
+    logger.warn(`Rejected malformed message: ${error.message}`);
+
+    if (typeof raw.id !== 'string' || !raw.id || raw.type === 'response' || raw.type === 'event') {
+      return;
+    }
+    const action = typeof raw.action === 'string' && raw.action ? raw.action : 'unknown';
+    this.sendResponse(raw.id, action, invalidPayloadResponse(error));
+  }
+
+  private async dispatchMessage(message: Message): Promise<void> {
     logger.debug(`Received: ${message.type}/${message.action}`);
 
+    try {
+      validatePayload(message);
+    } catch (error) {
+      if (!(error instanceof PayloadValidationError)) throw error;
+      logger.warn(`Rejected ${message.type} ${message.action}: ${error.message}`);
+      // Events and responses have no one to answer; requests get the field path back
+      if (message.type === 'request') {
+        const response = invalidPayloadResponse(error);
+        this.sendResponse(message.id, message.action, response);
+        this.recordAudit({ ...message, payload: null }, response, 0, { templateHash: null, sql: null, params: null });
+      }
+      return;
+    }
+
     // Handle responses to our requests (like auth.verify, allowlist.refresh)
     if (message.type === 'response' && message.id) {
+      // Registration acknowledged - the session is (re)established
+      if (message.action === 'probe.register.response') {
+        this.handleRegistered((message.payload ?? {}) as ProbeRegisteredPayload);
+        return;
+      }
+
       // Handle allowlist refresh response
       if (message.action === 'allowlist.refresh.response') {
         const payload = message.payload as CatalogSyncPayload | undefined;
@@ -217,12 +407,16 @@ export class WebSocketService {
       switch (message.action) {
         case 'config.sync':
           // Server sends authRequired flag on connection
-          this.handleConfigSync(message.payload as { authRequired?: boolean });
+          this.handleConfigSync(message.payload as ConfigSyncPayload);
           break;
         case 'allowlist.sync':
           // Server sends signed query catalog for validation
           this.handleAllowlistSync(message.payload as CatalogSyncPayload);
           break;
+        case 'keyring.update':
+          // Server adds or retires catalog signing keys (signed with the root key)
+          await this.handleKeyringUpdate(message.payload as KeyringUpdatePayload);
+          break;
         default:
           logger.debug(`Unknown event: ${message.action}`);
       }
@@ -230,42 +424,150 @@ export class WebSocketService {
     }
 
     // Handle requests from server (need response)
+    const startTime = Date.now();
+    const sqlTrace: SqlExecutionTrace = { templateHash: null, sql: null, params: null };
+
+    // sql.execute can be cancelled (sql.cancel) from the moment it is queued
+    const controller = message.action === 'sql.execute' ? new AbortController() : undefined;
+    if (controller) {
+      this.activeQueries.set(message.id, controller);
+    }
+
     try {
       let response: unknown;
 
-      switch (message.action) {
-        case 'sql.execute':
-          response = await this.handleSqlExecute(message.payload as SqlExecutePayload);
-          break;
-        case 'sql.testConnection':
-          response = await this.sqlService.testConnection();
-          break;
-        case 'file.read':
-          response = await this.handleFileRead(message.payload as FileReadPayload);
-          break;
-        case 'file.list':
-          response = await this.handleFileList(message.payload as FileListPayload);
-          break;
-        case 'file.search':
-          response = await this.handleFileSearch(message.payload as FileSearchPayload);
-          break;
-        case 'file.getStructure':
-          if (!this.config.projectPath) {
-            response = { error: 'Project path not configured on agent' };
-          } else {
-            response = await this.fileService.scanProjectStructure();
-          }
-          break;
-        default:
-          response = { error: `Unknown action: ${message.action}` };
+      const actionClass = ACTION_CLASSES[message.action];
+      if (actionClass) {
+        const { result, queueTime } = await this.limiters[actionClass].run(
+          () => this.executeRequest(message, sqlTrace, controller?.signal),
+          controller?.signal
+        );
+        response = result && typeof result === 'object' ? { ...result, queueTime } : result;
+      } else {
+        response = await this.executeRequest(message, sqlTrace, controller?.signal);
       }
 
       this.sendResponse(message.id, message.action, response);
+      this.recordAudit(message, response, Date.now() - startTime, sqlTrace);
     } catch (error) {
-      this.sendResponse(message.id, message.action, {
-        error: error instanceof Error ? error.message : 'Unknown error',
+      let response: unknown;
+      if (controller?.signal.aborted) {
+        // Cancelled while waiting for a slot - never ran
+        logger.info(`Query ${message.id} cancelled while queued`);
+        const cancelled: SqlResultPayload = {
+          columns: [],
+          rows: [],
+          rowCount: 0,
+          duration: Date.now() - startTime,
+          error: new QueryCancelledError().message,
+          cancelled: true,
+        };
+        response = cancelled;
+      } else {
+        if (error instanceof AgentBusyError) {
+          logger.warn(error.message);
+        }
+        response = {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          ...(error instanceof AgentBusyError ? { errorCode: error.code } : {}),
+        };
+      }
+      this.sendResponse(message.id, message.action, response);
+      this.recordAudit(message, response, Date.now() - startTime, sqlTrace);
+    } finally {
+      if (controller) {
+        this.activeQueries.delete(message.id);
+      }
+    }
+  }
+
+  /**
+   * Run a server request and return its response payload
+   */
+  private async executeRequest(message: Message, sqlTrace: SqlExecutionTrace, signal?: AbortSignal): Promise<unknown> {
+    let response: unknown;
+
+    switch (message.action) {
+      case 'sql.execute':
+        response = await this.handleSqlExecute(message.payload as SqlExecutePayload, message.id, sqlTrace, signal);
+        break;
+      case 'sql.cancel':
+        response = this.handleSqlCancel(message.payload as SqlCancelPayload);
+        break;
+      case 'sql.testConnection':
+        response = await this.sqlService.testConnection(
+          (message.payload as SqlTestConnectionPayload | undefined)?.targetId
+        );
+        break;
+      case 'file.read':
+        response = await this.handleFileRead(message.payload as FileReadPayload);
+        break;
+      case 'file.list':
+        response = await this.handleFileList(message.payload as FileListPayload);
+        break;
+      case 'file.search':
+        response = await this.handleFileSearch(message.payload as FileSearchPayload);
+        break;
+      case 'file.getStructure':
+        if (!this.config.projectPath) {
+          response = { error: 'Project path not configured on agent' };
+        } else {
+          response = await this.fileService.scanProjectStructure();
+        }
+        break;
+      default:
+        response = { error: `Unknown action: ${message.action}` };
+    }
+
+    return response;
+  }
+
+  /**
+   * Append an audited request and its outcome to the audit log
+   */
+  private recordAudit(message: Message, response: unknown, duration: number, sqlTrace: SqlExecutionTrace): void {
+    if (!AUDITED_ACTIONS.has(message.action)) return;
+
+    const result = (response ?? {}) as {
+      error?: string;
+      errorCode?: string;
+      rowCount?: number;
+      files?: unknown[];
+      results?: unknown[];
+    };
+
+    if (message.action === 'sql.execute') {
+      const payload = (message.payload ?? {}) as SqlExecutePayload;
+      const sqlResult = result as SqlResultPayload;
+      void this.auditLog.record({
+        messageId: message.id,
+        action: 'sql.execute',
+        toolId: payload.toolId ?? null,
+        templateHash: sqlTrace.templateHash,
+        targetId: payload.targetId ?? DEFAULT_TARGET_ID,
+        sql: sqlTrace.sql,
+        params: sqlTrace.params,
+        duration,
+        rowCount: sqlResult.error ? null : sqlResult.rowCount,
+        error: sqlResult.error ?? null,
+        verdict: sqlVerdict(sqlResult),
       });
+      return;
     }
+
+    void this.auditLog.record({
+      messageId: message.id,
+      action: message.action as AuditAction,
+      toolId: null,
+      templateHash: null,
+      targetId: null,
+      sql: null,
+      params: (message.payload ?? null) as Record<string, unknown> | null,
+      duration,
+      rowCount: result.files?.length ?? result.results?.length ?? null,
+      error: result.error ?? null,
+      verdict: result.errorCode === 'INVALID_PAYLOAD' ? 'rejected' : result.error ? 'failed' : 'executed',
+    });
   }
 
   /**
@@ -273,7 +575,11 @@ export class WebSocketService {
    * Server tells us if auth is required (password is set on server).
    * Persists to file so auth is required on restart.
    */
-  private async handleConfigSync(payload: { authRequired?: boolean }): Promise<void> {
+  private async handleConfigSync(payload: ConfigSyncPayload): Promise<void> {
+    if (!this.negotiateProtocol(payload)) {
+      return;
+    }
+
     this._authRequired = payload.authRequired ?? false;
 
     if (this._authRequired) {
@@ -295,6 +601,80 @@ export class WebSocketService {
     }
   }
 
+  /**
+   * Agree on a protocol version with the server. A newer server is used at our
+   * version; an older one that is still supported degrades the features that
+   * need a newer protocol. Returns false (and closes the connection for good)
+   * if there is no version both sides speak.
+   */
+  private negotiateProtocol(payload: ConfigSyncPayload): boolean {
+    // Servers that predate negotiation don't announce a version
+    if (payload.protocolVersion === undefined) {
+      return true;
+    }
+
+    const serverVersion = payload.protocolVersion;
+    const serverMin = payload.minProtocolVersion ?? serverVersion;
+
+    if (serverVersion < MIN_PROTOCOL_VERSION || serverMin > PROTOCOL_VERSION) {
+      this.protocolError = `Server protocol ${serverMin}-${serverVersion} is not supported by this agent (${MIN_PROTOCOL_VERSION}-${PROTOCOL_VERSION}, version ${AGENT_VERSION})`;
+      logger.error(this.protocolError);
+
+      this.sendMessage({
+        id: uuidv4(),
+        type: 'event',
+        action: 'probe.protocolUnsupported',
+        payload: {
+          agentVersion: AGENT_VERSION,
+          protocolVersion: PROTOCOL_VERSION,
+          minProtocolVersion: MIN_PROTOCOL_VERSION,
+          serverProtocolVersion: serverVersion,
+        },
+        timestamp: Date.now(),
+      });
+      this.socket?.close(CLOSE_PROTOCOL_UNSUPPORTED, 'Unsupported protocol version');
+      return false;
+    }
+
+    this.protocolError = null;
+    this.negotiatedProtocol = Math.min(serverVersion, PROTOCOL_VERSION);
+
+    if (serverVersion > PROTOCOL_VERSION) {
+      logger.warn(`Server speaks protocol ${serverVersion}, this agent only ${PROTOCOL_VERSION} - consider upgrading the agent`);
+    } else if (this.negotiatedProtocol < PROTOCOL_VERSION) {
+      const disabled = (Object.keys(PROTOCOL_FEATURES) as ProtocolFeature[]).filter(feature => !this.supportsFeature(feature));
+      logger.warn(`Server speaks protocol ${serverVersion} - running degraded${disabled.length ? ` (disabled: ${disabled.join(', ')})` : ''}`);
+    } else {
+      logger.info(`Protocol version ${this.negotiatedProtocol} negotiated`);
+    }
+    return true;
+  }
+
+  private supportsFeature(feature: ProtocolFeature): boolean {
+    return this.negotiatedProtocol >= PROTOCOL_FEATURES[feature];
+  }
+
+  /**
+   * Protocol negotiation state for the local status API
+   */
+  getProtocolStatus(): {
+    agentVersion: string;
+    protocolVersion: number;
+    negotiatedVersion: number;
+    encoding: MessageEncoding;
+    permessageDeflate: boolean;
+    error: string | null;
+  } {
+    return {
+      agentVersion: AGENT_VERSION,
+      protocolVersion: PROTOCOL_VERSION,
+      negotiatedVersion: this.negotiatedProtocol,
+      encoding: this.codec.encoding,
+      permessageDeflate: !!this.socket?.extensions.includes('permessage-deflate'),
+      error: this.protocolError,
+    };
+  }
+
   /**
    * Handle allowlist sync event from server.
    * Server sends signed query catalog for validation.
@@ -310,12 +690,48 @@ export class WebSocketService {
     } catch (error) {
       if (error instanceof AllowlistValidationError) {
         logger.error(`Catalog validation failed: ${error.message} (${error.code})`);
+        this.reportCatalogRejection(payload.catalog, error);
       } else {
         logger.error('Failed to process catalog sync:', error);
       }
     }
   }
 
+  /**
+   * Tell the server a catalog was rejected, so it can re-sign or investigate
+   */
+  private reportCatalogRejection(catalog: QueryCatalog, error: AllowlistValidationError): void {
+    const payload: CatalogRejectedPayload = {
+      code: error.code,
+      reason: error.message,
+      version: catalog.version,
+      generatedAt: catalog.generated_at,
+      keyId: catalog.key_id ?? null,
+    };
+    this.sendMessage({
+      id: uuidv4(),
+      type: 'event',
+      action: 'allowlist.rejected',
+      payload,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Handle keyring update event from server.
+   */
+  private async handleKeyringUpdate(payload: KeyringUpdatePayload): Promise<void> {
+    try {
+      await this.keyring.applyUpdate(payload.update);
+    } catch (error) {
+      if (error instanceof KeyringError) {
+        logger.error(`Keyring update rejected: ${error.message} (${error.code})`);
+      } else {
+        logger.error('Failed to process keyring update:', error);
+      }
+    }
+  }
+
   /**
    * Verify password with the server.
    * Returns success/failure and error message if failed.
@@ -365,11 +781,14 @@ export class WebSocketService {
     return this._authRequired;
   }
 
-  private async handleSqlExecute(payload: SqlExecutePayload) {
+  private async handleSqlExecute(payload: SqlExecutePayload, requestId: string, trace: SqlExecutionTrace, signal?: AbortSignal) {
     const startTime = Date.now();
+    const templateHash = payload.template ? this.allowlistService.hashTemplate(payload.template) : undefined;
+    trace.templateHash = templateHash ?? null;
+    trace.params = payload.params ?? null;
 
     try {
-      let queryToExecute: string;
+      let boundQuery: BoundQuery;
 
       // NEW: Template-based execution with catalog validation
       if (payload.template) {
@@ -394,29 +813,32 @@ export class WebSocketService {
           };
         }
 
-        // 2. Validate template against catalog (throws if invalid)
+        // 2. Validate template and toolId against catalog, check params against
+        //    the tool's schema, then bind them (all throw if invalid)
         try {
-          this.allowlistService.validateTemplate(payload.template);
+          const toolId = this.allowlistService.validateTemplate(payload.template, payload.toolId);
+          const params = this.allowlistService.validateParams(toolId, payload.params || {});
+          boundQuery = this.allowlistService.bindParams(
+            payload.template,
+            params,
+            this.sqlService.getDbType(payload.targetId) ?? 'mssql'
+          );
         } catch (error) {
           if (error instanceof AllowlistValidationError) {
             logger.warn(`Template rejected: ${error.code}`);
+            this.allowlistService.recordRejection(payload.template, payload.toolId, error);
             return {
               columns: [],
               rows: [],
               rowCount: 0,
               duration: Date.now() - startTime,
               error: `Security: ${error.message}`,
+              errorCode: error.code,
             };
           }
           throw error;
         }
 
-        // 3. Substitute params into validated template
-        queryToExecute = this.allowlistService.substituteParams(
-          payload.template,
-          payload.params || {}
-        );
-
         logger.debug(`Executing validated query for tool: ${payload.toolId}`);
       } else if (payload.query) {
         // LEGACY: Direct query - only allow if catalog not loaded (backward compat)
@@ -429,7 +851,26 @@ export class WebSocketService {
             error: 'Security: Direct queries not allowed - template required',
           };
         }
-        queryToExecute = payload.query;
+
+        // Classify the statement and apply the local policy (throws if rejected)
+        try {
+          this.statementPolicy.enforce(payload.query, this.sqlService.getDbType(payload.targetId) ?? 'mssql');
+        } catch (error) {
+          if (error instanceof StatementPolicyError) {
+            return {
+              columns: [],
+              rows: [],
+              rowCount: 0,
+              duration: Date.now() - startTime,
+              error: `Security: ${error.message}`,
+              errorCode: error.code,
+              statementCategory: error.classification.category,
+            };
+          }
+          throw error;
+        }
+
+        boundQuery = { text: payload.query, params: [] };
         logger.warn('Executing direct query (no catalog validation)');
       } else {
         return {
@@ -441,25 +882,196 @@ export class WebSocketService {
         };
       }
 
-      // 4. Execute the query
-      const result = await this.sqlService.execute(queryToExecute, payload.timeout);
+      trace.sql = boundQuery.text;
+      trace.params = Object.fromEntries(boundQuery.params.map(param => [param.name, param.value]));
+
+      const targetId = payload.targetId ?? DEFAULT_TARGET_ID;
+      const dialect = this.sqlService.getDbType(payload.targetId) ?? 'mssql';
+
+      // 4. Read-only targets - nothing may end or escape the wrapping read-only transaction
+      if (this.sqlService.isReadOnly(targetId)) {
+        const escapes = this.statementPolicy.findTransactionEscapes(boundQuery.text, dialect);
+        if (escapes.length > 0) {
+          const keywords = [...new Set(escapes.map(f => f.keyword))].join(', ');
+          logger.warn(`Query REJECTED on read-only target ${targetId}: ${keywords}`);
+          return {
+            columns: [],
+            rows: [],
+            rowCount: 0,
+            duration: Date.now() - startTime,
+            error: `Security: Transaction control, dynamic SQL and procedure calls are not allowed on read-only target ${targetId} (${keywords})`,
+            errorCode: 'READ_ONLY_VIOLATION',
+          };
+        }
+      }
+
+      // 5. Local operator veto - applies even to templates the server signed
+      const deniedBy = this.denyList.check({
+        toolId: payload.toolId,
+        templateHash,
+        statementClasses: () => this.statementPolicy.categories(boundQuery.text, dialect),
+        targetId,
+      });
+      if (deniedBy) {
+        this.notifyStatusChange();
+        return {
+          columns: [],
+          rows: [],
+          rowCount: 0,
+          duration: Date.now() - startTime,
+          error: `Security: Denied by local policy (${deniedBy.type}: ${deniedBy.value})${deniedBy.reason ? ` - ${deniedBy.reason}` : ''}`,
+          errorCode: 'DENIED_BY_LOCAL_POLICY',
+          deniedBy,
+        };
+      }
+
+      // 6. Execute the query (the signal is aborted by sql.cancel)
+      if (payload.stream) {
+        return await this.streamSqlResult(requestId, boundQuery, payload, signal);
+      }
+
+      const result = await this.sqlService.execute(
+        boundQuery.text,
+        payload.timeout,
+        payload.targetId,
+        signal,
+        boundQuery.params
+      );
+
+      // Same caps as a stream, applied once the whole result has been read
+      const capped = capResultSets(
+        result.resultSets,
+        resultCap(payload.maxRows, this.config.sqlMaxRows),
+        resultCap(payload.maxBytes, this.config.sqlMaxBytes)
+      );
+      if (!capped.truncated) {
+        return {
+          columns: result.columns,
+          rows: result.rows,
+          rowCount: result.rowCount,
+          duration: result.duration,
+          resultSets: result.resultSets,
+          messages: result.messages,
+        };
+      }
+
+      const first = capped.resultSets[0];
+      logger.warn(`Result truncated at ${capped.resultSets.reduce((n, set) => n + set.rowCount, 0)} rows (use stream: true for large results)`);
       return {
         columns: result.columns,
-        rows: result.rows,
-        rowCount: result.rowCount,
+        rows: first.rows,
+        rowCount: first.rowCount,
         duration: result.duration,
+        resultSets: capped.resultSets,
+        messages: result.messages,
+        truncated: true,
       };
     } catch (error) {
+      if (error instanceof QueryCancelledError) {
+        return {
+          columns: [],
+          rows: [],
+          rowCount: 0,
+          duration: Date.now() - startTime,
+          error: error.message,
+          cancelled: true,
+        };
+      }
+      if (error instanceof SqlUnavailableError) {
+        return {
+          columns: [],
+          rows: [],
+          rowCount: 0,
+          duration: Date.now() - startTime,
+          error: error.message,
+          errorCode: error.code,
+          retryAfter: error.retryAfterMs,
+        };
+      }
       return {
         columns: [],
         rows: [],
         rowCount: 0,
         duration: Date.now() - startTime,
         error: error instanceof Error ? error.message : 'SQL execution failed',
+        errorDetails: error instanceof Error ? describeSqlError(error) : undefined,
       };
     }
   }
 
+  /**
+   * Abort an in-flight sql.execute identified by its original message id
+   */
+  private handleSqlCancel(payload: SqlCancelPayload): { cancelled: boolean; error?: string } {
+    const controller = this.activeQueries.get(payload.requestId);
+    if (!controller) {
+      return { cancelled: false, error: `No active query with id ${payload.requestId}` };
+    }
+
+    logger.info(`Cancelling query ${payload.requestId}`);
+    controller.abort();
+    return { cancelled: true };
+  }
+
+  /**
+   * Execute a query in streaming mode: rows go out as sql.execute.chunk
+   * messages and the returned summary becomes the final sql.execute.response.
+   */
+  private async streamSqlResult(
+    requestId: string,
+    query: BoundQuery,
+    payload: SqlExecutePayload,
+    signal?: AbortSignal
+  ): Promise<SqlResultPayload> {
+    const summary = await this.sqlService.executeStream(query.text, {
+      timeout: payload.timeout,
+      signal,
+      params: query.params,
+      chunkSize: Math.max(1, payload.chunkSize ?? this.config.sqlChunkRows),
+      maxRows: resultCap(payload.maxRows, this.config.sqlMaxRows),
+      maxBytes: resultCap(payload.maxBytes, this.config.sqlMaxBytes),
+      onChunk: async (chunk) => {
+        if (this.socket?.readyState !== WebSocket.OPEN) {
+          throw new Error('Connection to server lost during streaming');
+        }
+        const message: Message = {
+          id: requestId,
+          type: 'response',
+          action: 'sql.execute.chunk',
+          payload: chunk,
+          timestamp: Date.now(),
+        };
+        this.sendMessage(message);
+        await this.waitForDrain();
+      },
+    }, payload.targetId);
+
+    if (summary.truncated) {
+      logger.warn(`Streamed result truncated at ${summary.rowCount} rows / ${summary.bytes} bytes`);
+    }
+
+    return {
+      columns: summary.columns,
+      rows: [],
+      rowCount: summary.rowCount,
+      duration: summary.duration,
+      messages: summary.messages,
+      streamed: true,
+      chunks: summary.chunks,
+      bytes: summary.bytes,
+      truncated: summary.truncated,
+    };
+  }
+
+  /**
+   * Wait until the socket's send buffer drains below the high-water mark
+   */
+  private async waitForDrain(): Promise<void> {
+    while (this.socket?.readyState === WebSocket.OPEN && this.socket.bufferedAmount > STREAM_HIGH_WATER_MARK) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+  }
+
   private async handleFileRead(payload: FileReadPayload) {
     // Check if project path is configured
     if (!this.config.projectPath) {
@@ -538,24 +1150,125 @@ export class WebSocketService {
       payload,
       timestamp: Date.now(),
     };
-    this.sendMessage(response);
+    this.deliverResponse(response);
+  }
+
+  /**
+   * Send a response, or buffer it for replay if the connection is down or the send fails
+   */
+  private deliverResponse(response: Message): void {
+    if (this.socket?.readyState !== WebSocket.OPEN) {
+      logger.warn(`Not connected - buffering ${response.action} ${response.id} for replay`);
+      this.responseBuffer.add(response);
+      return;
+    }
+
+    const { data, binary, bytes } = this.codec.encode(response);
+    this.socket.send(data, { binary }, (error) => {
+      if (error) {
+        logger.warn(`Failed to send ${response.action} ${response.id} - buffering for replay:`, error);
+        this.responseBuffer.add(response, bytes);
+      }
+    });
   }
 
   private sendMessage(message: Message): void {
     if (this.socket?.readyState === WebSocket.OPEN) {
-      this.socket.send(JSON.stringify(message));
+      const { data, binary } = this.codec.encode(message);
+      this.socket.send(data, { binary });
     }
   }
 
+  /**
+   * Register with the server, presenting the resume token of the previous
+   * session and the ids of responses waiting to be replayed
+   */
   private registerProbe(): void {
+    const pendingResponses = this.responseBuffer.ids();
+    const payload: ProbeRegisterPayload = {
+      serverId: this.config.serverId,
+      agentVersion: AGENT_VERSION,
+      protocolVersion: PROTOCOL_VERSION,
+      minProtocolVersion: MIN_PROTOCOL_VERSION,
+      capabilities: buildCapabilities(this.config),
+      ...(this.resumeToken ? { resumeToken: this.resumeToken } : {}),
+      ...(pendingResponses.length > 0 ? { pendingResponses } : {}),
+    };
     const message: Message = {
       id: uuidv4(),
       type: 'request',
       action: 'probe.register',
-      payload: { serverId: this.config.serverId },
+      payload,
       timestamp: Date.now(),
     };
     this.sendMessage(message);
+
+    // Servers that don't answer probe.register still get the buffered responses and project sync
+    this.clearRegisterTimeout();
+    this.registerTimeout = setTimeout(() => {
+      this.registerTimeout = null;
+      this.replayResponses();
+      this.syncProjectData();
+    }, REGISTER_RESPONSE_TIMEOUT);
+  }
+
+  private handleRegistered(payload: ProbeRegisteredPayload): void {
+    // A late answer after the fallback already replayed and synced
+    const timedOut = this.registerTimeout === null;
+    this.clearRegisterTimeout();
+
+    if (payload.resumeToken) {
+      this.resumeToken = payload.resumeToken;
+    }
+    if (payload.resumed) {
+      logger.info('Session resumed');
+    }
+    this.applyEncoding(payload.encoding ?? 'json');
+
+    this.replayResponses(new Set(payload.receivedIds ?? []));
+    if (!timedOut) {
+      this.syncProjectData();
+    }
+  }
+
+  /**
+   * Use the encoding the server picked at registration, if we offered it
+   */
+  private applyEncoding(encoding: MessageEncoding): void {
+    if (encoding === 'msgpack' && (!this.config.wsMsgpack || !this.supportsFeature('encoding.msgpack'))) {
+      logger.warn(`Server picked msgpack, which was not offered (protocol ${this.negotiatedProtocol}) - staying on JSON`);
+      return;
+    }
+
+    this.codec.setEncoding(encoding);
+    if (encoding !== 'json') {
+      logger.info(`Messages of ${this.config.wsCompressionThreshold} bytes or more are sent as ${encoding}`);
+    }
+  }
+
+  /**
+   * Resend responses buffered while disconnected (skipping those the server already has)
+   */
+  private replayResponses(receivedIds?: Set<string>): void {
+    const responses = this.responseBuffer.drain(receivedIds);
+    if (responses.length === 0) return;
+
+    if (!this.supportsFeature('session.resume')) {
+      logger.warn(`Server protocol ${this.negotiatedProtocol} cannot resume sessions - dropped ${responses.length} buffered response(s)`);
+      return;
+    }
+
+    logger.info(`Replaying ${responses.length} buffered response(s)`);
+    for (const response of responses) {
+      this.deliverResponse(response);
+    }
+  }
+
+  private clearRegisterTimeout(): void {
+    if (this.registerTimeout) {
+      clearTimeout(this.registerTimeout);
+      this.registerTimeout = null;
+    }
   }
 
   private startHeartbeat(): void {
@@ -579,6 +1292,13 @@ export class WebSocketService {
           sqlConnected: this.sqlService.isConnected(),
           sqlHost: this.sqlService.getSqlHost(),
           dbType: this.sqlService.getDbType(),
+          targets: this.sqlService.getTargetsHealth(),
+          denyList: this.denyList.getSummary(),
+          queues: {
+            sql: this.limiters.sql.getStats(),
+            file: this.limiters.file.getStats(),
+          },
+          bufferedResponses: this.responseBuffer.size,
           projectPath: this.config.projectPath || null,
         },
         timestamp: Date.now(),
@@ -670,6 +1390,7 @@ export class WebSocketService {
 
   disconnect(): void {
     this.stopHeartbeat();
+    this.clearRegisterTimeout();
     this.stopCatalogRefresh();
     this._isConnected = false;
     this.onConnectionChange?.(false);
@@ -681,6 +1402,25 @@ export class WebSocketService {
     return this._isConnected;
   }
 
+  /**
+   * Catalog state for the local inspection API
+   */
+  getAllowlistService(): AllowlistService {
+    return this.allowlistService;
+  }
+
+  getKeyringService(): KeyringService {
+    return this.keyring;
+  }
+
+  getDenyListService(): DenyListService {
+    return this.denyList;
+  }
+
+  getAuditLogService(): AuditLogService {
+    return this.auditLog;
+  }
+
   /**
    * Force sending a heartbeat to sync status with server.
    * Call this after SQL config changes or other status updates.
@@ -689,3 +1429,32 @@ export class WebSocketService {
     this.sendHeartbeat();
   }
 }
+
+/**
+ * Row / byte cap for a query: the server may lower the agent's limit but not
+ * raise or remove it. Only the agent's own 0 means unlimited (undefined).
+ */
+function resultCap(requested: number | undefined, agentLimit: number): number | undefined {
+  const limit = agentLimit > 0 ? agentLimit : Infinity;
+  const cap = requested !== undefined && requested > 0 ? Math.min(requested, limit) : limit;
+  return Number.isFinite(cap) ? cap : undefined;
+}
+
+/**
+ * Error response for a request that failed schema validation
+ */
+function invalidPayloadResponse(error: PayloadValidationError): InvalidPayloadResponse {
+  return { error: error.message, errorCode: error.code, field: error.path };
+}
+
+/**
+ * Audit verdict for a sql.execute result
+ */
+function sqlVerdict(result: SqlResultPayload): AuditVerdict {
+  if (result.cancelled) return 'cancelled';
+  if (result.errorCode === 'DENIED_BY_LOCAL_POLICY') return 'denied';
+  if (result.errorCode === 'INVALID_PAYLOAD') return 'rejected';
+  if (result.error?.startsWith('Security:')) return 'rejected';
+  if (result.error) return 'failed';
+  return 'executed';
+}
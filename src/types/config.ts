@@ -28,22 +28,86 @@ export interface AppConfig extends InitConfig {
 
   // Auth required flag (from server via WebSocket)
   authRequired: boolean;
+
+  // Streaming result limits (sql.execute with stream: true)
+  sqlChunkRows: number;
+  sqlMaxRows: number;
+  sqlMaxBytes: number;
+
+  // Statement policy for direct queries when no catalog is loaded
+  legacyQueryPolicy: LegacyQueryPolicy;
+
+  // Seconds a catalog's generated_at may be ahead of the local clock
+  catalogClockSkew: number;
+
+  // Concurrency limits and queue sizes per action class
+  sqlMaxConcurrent: number;
+  sqlMaxQueue: number;
+  fileMaxConcurrent: number;
+  fileMaxQueue: number;
+
+  // SQL target back-pressure
+  sqlBreakerFailures: number;
+  sqlBreakerResetSeconds: number;
+  sqlQueriesPerMinute: number;
+
+  // Seconds undelivered responses are kept for replay after a reconnect
+  wsResumeWindowSeconds: number;
+
+  // Offer permessage-deflate / MessagePack; messages from this size (bytes) are compressed or packed
+  wsCompression: boolean;
+  wsMsgpack: boolean;
+  wsCompressionThreshold: number;
+
+  // Audit log rotation
+  auditLogMaxBytes: number;
+  auditLogMaxFiles: number;
 }
 
-export type DbType = 'mssql' | 'postgres';
+export type LegacyQueryPolicy = 'read-only' | 'unrestricted';
+
+export type DbType = 'mssql' | 'postgres' | 'mysql';
 
 export interface SqlConfig {
+  name?: string;             // Display name for named targets
   dbType?: DbType;
   server: string;
   port: number;
   user: string;
   password: string;
   database?: string;
+  readOnly?: boolean;        // Enforce non-mutating execution at the database layer
   options?: {
     // MSSQL options
     encrypt?: boolean;
     trustServerCertificate?: boolean;
-    // PostgreSQL options
+    // PostgreSQL / MySQL options
     sslMode?: 'disable' | 'require' | 'verify-ca' | 'verify-full';
   };
 }
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  retryAt: string | null;    // When an open breaker lets the next probe through
+}
+
+export interface QueryBudgetStatus {
+  limit: number | null;      // Queries per minute (null = unlimited)
+  used: number;              // Queries started in the last minute
+}
+
+export interface SqlTargetHealth {
+  id: string;
+  name: string;
+  dbType: DbType;
+  host: string;
+  database: string | null;
+  readOnly: boolean;
+  connected: boolean;
+  breaker: CircuitBreakerStatus;
+  budget: QueryBudgetStatus;
+}
@@ -9,16 +9,38 @@ export interface Message {
 }
 
 // Server -> Client actions
+// Placeholder types in templates: {{name:type}}. 'ident' is quoted and spliced
+// into the SQL text; all other types are sent as bound parameters.
+export type SqlParamType = 'ident' | 'string' | 'int' | 'number' | 'bool' | 'date' | 'datetime' | 'uuid';
+
+export type SqlParamValue = string | number | boolean | null;
+
 export interface SqlExecutePayload {
   // NEW: Template-based execution (for catalog validation)
-  template?: string;              // SQL with {{placeholders}}
-  params?: Record<string, string>; // Parameter values for substitution
-  toolId?: string;                // Tool ID for logging
+  template?: string;              // SQL with {{name:type}} placeholders
+  params?: Record<string, SqlParamValue>; // Values for every placeholder in the template
+  toolId?: string;                // Tool the template must be approved for
 
   // LEGACY: Direct query (only when catalog disabled)
   query?: string;
 
   timeout?: number;
+  targetId?: string;              // Named SQL target (defaults to 'default')
+
+  // Streaming: rows are sent as sql.execute.chunk messages before the final response
+  stream?: boolean;
+  chunkSize?: number;             // Rows per chunk
+  maxRows?: number;               // Can only lower the agent's SQL_MAX_ROWS (must be >= 1)
+  maxBytes?: number;              // Can only lower the agent's SQL_MAX_BYTES (must be >= 1)
+}
+
+// sql.cancel - abort an in-flight sql.execute by its message id
+export interface SqlCancelPayload {
+  requestId: string;
+}
+
+export interface SqlTestConnectionPayload {
+  targetId?: string;
 }
 
 // Query catalog (sent from server via WebSocket)
@@ -27,9 +49,62 @@ export interface QueryCatalog {
   generated_at: string;
   expires_at: string;
   queries: Record<string, string>;  // toolId → hash
+  schemas?: Record<string, ToolParamSchema>;  // toolId → param schema (signed when present)
+  key_id?: string;                  // Signing key (root CA certificate when absent)
   signature: string;
 }
 
+// Approved parameters of one tool: param name → constraints
+export type ToolParamSchema = Record<string, CatalogParamSpec>;
+
+export interface CatalogParamSpec {
+  kind: SqlParamType;
+  required?: boolean;             // Default true; missing optional params bind as NULL
+  pattern?: string;               // Regex the whole value must match
+  enum?: (string | number)[];     // Allowed values
+  min?: number;                   // Numeric range (int / number)
+  max?: number;
+  max_length?: number;            // String / ident length
+}
+
+// allowlist.rejected event payload - sent when a synced catalog is not accepted
+export interface CatalogRejectedPayload {
+  code: string;                     // AllowlistValidationError code
+  reason: string;
+  version: number;
+  generatedAt: string;
+  keyId: string | null;
+}
+
+// Signing key trusted in addition to the root CA certificate
+export interface TrustedKey {
+  key_id: string;
+  public_key: string;               // PEM
+  not_before?: string;              // ISO; key is not valid before this time
+  not_after?: string;               // ISO; key is not valid after this time
+}
+
+// Keyring change, signed with the root CA key
+export interface KeyringUpdate {
+  version: number;                  // Must increase with every update
+  issued_at: string;
+  add?: TrustedKey[];               // Added or replaced (same key_id)
+  retire?: string[];                // key_ids to remove
+  signature: string;
+}
+
+// keyring.update event payload
+export interface KeyringUpdatePayload {
+  update: KeyringUpdate;
+}
+
+// config.sync event payload - sent by the server on connect
+export interface ConfigSyncPayload {
+  authRequired?: boolean;
+  protocolVersion?: number;       // Server's protocol version (absent on older servers)
+  minProtocolVersion?: number;    // Oldest agent protocol the server accepts
+}
+
 // Catalog sync event payload
 export interface CatalogSyncPayload {
   catalog: QueryCatalog;
@@ -49,12 +124,177 @@ export interface FileSearchPayload {
   glob?: string;
 }
 
+// Encoding of large messages: JSON text frames, or MessagePack binary frames
+export type MessageEncoding = 'json' | 'msgpack';
+
+// What an agent build supports (advertised in probe.register)
+export interface AgentCapabilities {
+  dbTypes: string[];
+  actions: string[];              // Request actions the agent handles
+  features: string[];             // e.g. 'sql.stream', 'sql.cancel', 'session.resume'
+  encodings: MessageEncoding[];   // Binary encodings the server may pick in probe.register.response
+  compression: {
+    permessageDeflate: boolean;   // Offered in the WebSocket handshake
+    threshold: number;            // Messages smaller than this (bytes) are sent as is
+  };
+  files: {
+    enabled: boolean;             // false when no project path is configured
+    maxFileSize: number;
+  };
+  limits: {
+    sqlChunkRows: number;
+    sqlMaxRows: number;
+    sqlMaxBytes: number;
+    sqlMaxConcurrent: number;
+    fileMaxConcurrent: number;
+    sqlQueriesPerMinute: number | null;
+  };
+}
+
+// probe.register - sent on every (re)connect
+export interface ProbeRegisterPayload {
+  serverId: string;
+  agentVersion: string;
+  protocolVersion: number;        // Highest protocol version the agent speaks
+  minProtocolVersion: number;     // Oldest server protocol it still works with
+  capabilities: AgentCapabilities;
+  resumeToken?: string;           // From the last probe.register.response, to resume that session
+  pendingResponses?: string[];    // Ids of responses buffered while disconnected, replayed next
+}
+
+// probe.register.response
+export interface ProbeRegisteredPayload {
+  resumeToken?: string;           // Token to present on the next reconnect
+  resumed?: boolean;              // Whether the previous session was resumed
+  receivedIds?: string[];         // Buffered responses the server already has (not replayed)
+  encoding?: MessageEncoding;     // Encoding picked from capabilities.encodings (default json)
+}
+
 // Client -> Server responses
+
+// Response to a request whose envelope or payload failed schema validation
+export interface InvalidPayloadResponse {
+  error: string;
+  errorCode: 'INVALID_PAYLOAD';
+  field: string;                  // Path of the offending field, e.g. payload.params.limit
+}
+
+// Column descriptor derived from driver metadata (present even for empty results)
+export interface SqlColumnInfo {
+  name: string;
+  ordinal: number;                // 0-based position in each row array
+  dbType: string;                 // Native type name, e.g. 'nvarchar', 'int8', 'decimal'
+  nullable: boolean | null;       // null when the driver doesn't report it (PostgreSQL)
+  length?: number;
+  precision?: number;
+  scale?: number;
+}
+
+// Informational output from the server (PRINT / RAISERROR WITH NOWAIT on
+// SQL Server, RAISE NOTICE / WARNING on PostgreSQL)
+export interface SqlServerMessage {
+  message: string;
+  severity?: number | string;     // Class 0-10 on SQL Server, level name (NOTICE, WARNING, ...) on PostgreSQL
+  number?: number;                // SQL Server message number
+  state?: number | string;        // SQL Server state, SQLSTATE on PostgreSQL
+  line?: number;                  // Line in the batch / procedure (SQL Server)
+  procedure?: string;
+  detail?: string;                // PostgreSQL DETAIL
+  hint?: string;                  // PostgreSQL HINT
+  where?: string;                 // PostgreSQL CONTEXT (e.g. PL/pgSQL line)
+}
+
+// Structured database error (fields present depend on the driver)
+export interface SqlErrorInfo {
+  message: string;
+  code?: string;                  // Driver error code (ETIMEOUT, ECANCEL, ER_PARSE_ERROR, ...)
+  number?: number;                // SQL Server error number / MySQL errno
+  state?: number;                 // SQL Server state
+  class?: number;                 // SQL Server severity class
+  procedure?: string;
+  line?: number;
+  serverName?: string;
+  sqlState?: string;              // PostgreSQL / MySQL SQLSTATE
+  severity?: string;              // PostgreSQL severity (ERROR, FATAL, ...)
+  detail?: string;
+  hint?: string;
+  position?: number;              // Character offset in the query (PostgreSQL)
+  where?: string;
+  schema?: string;
+  table?: string;
+  column?: string;
+  constraint?: string;
+}
+
+// One result set of a batch. Messages received before a set completes are
+// attached to it; output after the last set goes to the top-level messages.
+export interface SqlResultSet {
+  columns: SqlColumnInfo[];
+  rows: unknown[];
+  rowCount: number;
+  messages: SqlServerMessage[];
+}
+
+// Statement class assigned by the legacy query classifier
+export type StatementCategory = 'read' | 'write' | 'ddl' | 'admin';
+
+// Local operator veto, evaluated after catalog validation
+export type DenyRuleType = 'toolId' | 'templateHash' | 'statementClass';
+
+export interface DenyRule {
+  id: string;
+  type: DenyRuleType;
+  value: string;                  // toolId, sha256:... hash, or StatementCategory
+  targetId: string | null;        // Only this SQL target (null = all targets)
+  reason: string | null;
+  createdAt: string;
+}
+
+export interface DenialRecord {
+  timestamp: string;
+  ruleId: string;
+  toolId: string | null;
+  templateHash: string | null;
+  targetId: string;
+}
+
+// Deny-list state reported in the heartbeat
+export interface DenyListSummary {
+  ruleCount: number;
+  denialCount: number;            // Since agent start
+  recentDenials: DenialRecord[];  // Newest first
+}
+
 export interface SqlResultPayload {
+  // First result set (kept for clients that only read a single result)
+  columns: SqlColumnInfo[];
   rows: unknown[];
   rowCount: number;
   duration: number;
+  resultSets?: SqlResultSet[];    // All result sets in batch order
+  messages?: SqlServerMessage[];  // Messages after the last result set
   error?: string;
+  errorDetails?: SqlErrorInfo;    // Structured fields for database errors
+  cancelled?: boolean;            // Aborted via sql.cancel
+  errorCode?: string;             // Security rejection code (e.g. STATEMENT_NOT_ALLOWED)
+  statementCategory?: StatementCategory;
+  deniedBy?: DenyRule;            // Local deny-list rule that blocked execution
+  queueTime?: number;             // ms spent waiting for a free sql slot
+  retryAfter?: number;            // ms until the target accepts queries again (CIRCUIT_OPEN / QUERY_BUDGET_EXCEEDED)
+
+  truncated?: boolean;            // Rows were dropped at SQL_MAX_ROWS / SQL_MAX_BYTES (or the requested caps)
+
+  // Set on the final summary of a streamed execution
+  streamed?: boolean;
+  chunks?: number;
+  bytes?: number;
+}
+
+// sql.execute.chunk - one slice of a streamed result (same id as the request)
+export interface SqlResultChunkPayload {
+  sequence: number;
+  columns: SqlColumnInfo[];
+  rows: unknown[];
 }
 
 export interface FileContentPayload {
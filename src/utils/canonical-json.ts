@@ -0,0 +1,26 @@
+/**
+ * Recursively sort object keys to match Python's json.dumps(sort_keys=True).
+ * This ensures JSON serialization matches exactly between Python and JS.
+ */
+function sortObjectKeys(obj: unknown): unknown {
+  if (obj === null || typeof obj !== 'object') {
+    return obj;
+  }
+  if (Array.isArray(obj)) {
+    return obj.map(item => sortObjectKeys(item));
+  }
+  const sorted: Record<string, unknown> = {};
+  const keys = Object.keys(obj as Record<string, unknown>).sort();
+  for (const key of keys) {
+    sorted[key] = sortObjectKeys((obj as Record<string, unknown>)[key]);
+  }
+  return sorted;
+}
+
+/**
+ * Serialize a signed document the way the server does:
+ * json.dumps(document, sort_keys=True, separators=(',', ':'))
+ */
+export function canonicalJson(document: unknown): string {
+  return JSON.stringify(sortObjectKeys(document));
+}
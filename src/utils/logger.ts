@@ -1,8 +1,19 @@
 import winston from 'winston';
+import { getRequestContext } from './request-context.js';
+
+// LOG_FORMAT=json emits one JSON object per line for log collectors
+const jsonLogs = process.env.LOG_FORMAT === 'json';
+
+// Tag entries with the server request being handled (see request-context.ts)
+const requestContext = winston.format((info) => {
+  const context = getRequestContext();
+  return context ? Object.assign(info, context) : info;
+});
 
 export const logger = winston.createLogger({
   level: process.env.LOG_LEVEL || 'info',
   format: winston.format.combine(
+    requestContext(),
     winston.format.timestamp(),
     winston.format.errors({ stack: true }),
     winston.format.printf(({ level, message, timestamp, ...meta }) => {
@@ -12,10 +23,12 @@ export const logger = winston.createLogger({
   ),
   transports: [
     new winston.transports.Console({
-      format: winston.format.combine(
-        winston.format.colorize(),
-        winston.format.simple()
-      ),
+      format: jsonLogs
+        ? winston.format.json()
+        : winston.format.combine(
+          winston.format.colorize(),
+          winston.format.simple()
+        ),
     }),
   ],
 });
@@ -0,0 +1,34 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Correlation fields for the server request being handled. Set once per
+ * incoming message and picked up by the logger, so every log line written
+ * while serving it - down to the SQL and file services - carries them.
+ */
+export interface RequestContext {
+  requestId: string;      // Message.id assigned by the server
+  action: string;
+  toolId?: string;
+  targetId?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run fn (and everything it awaits) with the given request context
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Run fn with extra fields added to the current context (no-op outside a request)
+ */
+export function extendRequestContext<T>(fields: Partial<RequestContext>, fn: () => T): T {
+  const current = storage.getStore();
+  return current ? storage.run({ ...current, ...fields }, fn) : fn();
+}
+
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
@@ -3,6 +3,9 @@ import { ServerConfigCard } from './components/ServerConfigCard';
 import { SqlConfigCard } from './components/SqlConfigCard';
 import { StatusCard } from './components/StatusCard';
 import { LoginScreen } from './components/LoginScreen';
+import { AllowlistCard } from './components/AllowlistCard';
+import { DenyListCard } from './components/DenyListCard';
+import { AuditCard } from './components/AuditCard';
 import { fetchWithAuth } from './utils/fetchWithAuth';
 
 interface AppStatus {
@@ -32,7 +35,7 @@ function App() {
   const [serverConfig, setServerConfig] = useState<ServerConfig | null>(null);
   const [authStatus, setAuthStatus] = useState<AuthStatus>({ requiresAuth: false, authenticated: false });
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'status' | 'sql'>('status');
+  const [activeTab, setActiveTab] = useState<'status' | 'sql' | 'allowlist' | 'audit'>('status');
   const [uploadStatus, setUploadStatus] = useState<{ success?: boolean; message?: string } | null>(null);
   const [uploading, setUploading] = useState(false);
   const [restarting, setRestarting] = useState(false);
@@ -304,6 +307,18 @@ function App() {
         >
           SQL Server
         </button>
+        <button
+          className={`tab ${activeTab === 'allowlist' ? 'active' : ''}`}
+          onClick={() => setActiveTab('allowlist')}
+        >
+          Allowlist
+        </button>
+        <button
+          className={`tab ${activeTab === 'audit' ? 'active' : ''}`}
+          onClick={() => setActiveTab('audit')}
+        >
+          Audit
+        </button>
       </div>
 
       {activeTab === 'status' && (
@@ -322,6 +337,15 @@ function App() {
           isConnected={status?.sqlConnected || false}
         />
       )}
+
+      {activeTab === 'allowlist' && (
+        <>
+          <AllowlistCard />
+          <DenyListCard />
+        </>
+      )}
+
+      {activeTab === 'audit' && <AuditCard />}
     </div>
   );
 }
@@ -0,0 +1,184 @@
+import { useState, useEffect } from 'react';
+import { fetchWithAuth } from '../utils/fetchWithAuth';
+
+interface AllowlistStatus {
+  hasCatalog: boolean;
+  expired: boolean;
+  version: number | null;
+  keyId: string | null;
+  queryCount: number;
+  generatedAt: string | null;
+  expiresAt: string | null;
+  secondsUntilExpiration: number;
+  lastSyncAt: string | null;
+  lastVerifiedAt: string | null;
+}
+
+interface KeyringStatus {
+  version: number;
+  keys: { keyId: string; notBefore: string | null; notAfter: string | null; active: boolean }[];
+}
+
+interface ApprovedTool {
+  toolId: string;
+  hash: string;
+  hasSchema: boolean;
+}
+
+interface TemplateRejection {
+  timestamp: string;
+  hash: string;
+  toolId: string | null;
+  code: string;
+  reason: string;
+}
+
+const formatTime = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+const shortHash = (hash: string) => hash.replace(/^sha256:/, '').substring(0, 16);
+
+export function AllowlistCard() {
+  const [status, setStatus] = useState<AllowlistStatus | null>(null);
+  const [keyring, setKeyring] = useState<KeyringStatus | null>(null);
+  const [tools, setTools] = useState<ApprovedTool[]>([]);
+  const [rejections, setRejections] = useState<TemplateRejection[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    loadAllowlist();
+  }, []);
+
+  const loadAllowlist = async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [statusRes, toolsRes, rejectionsRes] = await Promise.all([
+        fetchWithAuth('/api/allowlist'),
+        fetchWithAuth('/api/allowlist/tools'),
+        fetchWithAuth('/api/allowlist/rejections'),
+      ]);
+
+      if (!statusRes.ok) {
+        const data = await statusRes.json();
+        setError(data.error || 'Failed to load allowlist');
+        return;
+      }
+
+      const statusData = await statusRes.json();
+      setStatus(statusData.status);
+      setKeyring(statusData.keyring);
+      setTools((await toolsRes.json()).tools || []);
+      setRejections((await rejectionsRes.json()).rejections || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load allowlist');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const badge = !status?.hasCatalog ? 'disconnected' : status.expired ? 'pending' : 'connected';
+
+  return (
+    <>
+      <div className="card">
+        <div className="card-header">
+          <h2 className="card-title">Query Catalog</h2>
+          <span className={`status-badge status-${badge}`}>
+            {!status?.hasCatalog ? 'No catalog' : status.expired ? 'Expired' : 'Valid'}
+          </span>
+        </div>
+
+        {error && <div className="alert alert-error">{error}</div>}
+
+        {status && (
+          <div className="info-grid">
+            <span className="info-label">Version</span>
+            <span className="info-value">{status.version ?? '—'}</span>
+            <span className="info-label">Signing key</span>
+            <span className="info-value">{status.keyId ?? '—'}</span>
+            <span className="info-label">Approved queries</span>
+            <span className="info-value">{status.queryCount}</span>
+            <span className="info-label">Generated</span>
+            <span className="info-value">{formatTime(status.generatedAt)}</span>
+            <span className="info-label">Expires</span>
+            <span className="info-value">{formatTime(status.expiresAt)}</span>
+            <span className="info-label">Last sync</span>
+            <span className="info-value">{formatTime(status.lastSyncAt)}</span>
+            <span className="info-label">Last verified</span>
+            <span className="info-value">{formatTime(status.lastVerifiedAt)}</span>
+            <span className="info-label">Keyring version</span>
+            <span className="info-value">
+              {keyring ? `${keyring.version} (${keyring.keys.length} additional key${keyring.keys.length === 1 ? '' : 's'})` : '—'}
+            </span>
+          </div>
+        )}
+
+        <div className="btn-group" style={{ marginTop: '1rem' }}>
+          <button className="btn btn-secondary" onClick={loadAllowlist} disabled={loading}>
+            {loading ? 'Refreshing...' : 'Refresh'}
+          </button>
+        </div>
+      </div>
+
+      <div className="card">
+        <div className="card-header">
+          <h2 className="card-title">Approved Tools</h2>
+        </div>
+        {tools.length === 0 ? (
+          <p style={{ color: 'var(--text-muted)', fontSize: '0.875rem' }}>No approved tools.</p>
+        ) : (
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Tool</th>
+                <th>Template hash</th>
+                <th>Param schema</th>
+              </tr>
+            </thead>
+            <tbody>
+              {tools.map(tool => (
+                <tr key={tool.toolId}>
+                  <td>{tool.toolId}</td>
+                  <td title={tool.hash}><code>{shortHash(tool.hash)}</code></td>
+                  <td>{tool.hasSchema ? 'Yes' : 'No'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="card">
+        <div className="card-header">
+          <h2 className="card-title">Rejected Templates</h2>
+        </div>
+        {rejections.length === 0 ? (
+          <p style={{ color: 'var(--text-muted)', fontSize: '0.875rem' }}>No rejected templates.</p>
+        ) : (
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Time</th>
+                <th>Tool</th>
+                <th>Template hash</th>
+                <th>Reason</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rejections.map((rejection, index) => (
+                <tr key={`${rejection.timestamp}-${index}`}>
+                  <td>{formatTime(rejection.timestamp)}</td>
+                  <td>{rejection.toolId ?? '—'}</td>
+                  <td title={rejection.hash}><code>{shortHash(rejection.hash)}</code></td>
+                  <td title={rejection.reason}>{rejection.code}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,295 @@
+import { useState, useEffect } from 'react';
+import { fetchWithAuth } from '../utils/fetchWithAuth';
+
+interface AuditEntry {
+  seq: number;
+  timestamp: string;
+  messageId: string;
+  action: string;
+  toolId: string | null;
+  templateHash: string | null;
+  targetId: string | null;
+  sql: string | null;
+  params: Record<string, unknown> | null;
+  duration: number;
+  rowCount: number | null;
+  error: string | null;
+  verdict: string;
+}
+
+interface AuditFilters {
+  from: string;
+  to: string;
+  toolId: string;
+  action: string;
+  status: string;
+}
+
+interface AuditVerification {
+  valid: boolean;
+  entries: number;
+  error?: { file: string; line: number; reason: string };
+}
+
+const PAGE_SIZE = 50;
+
+const EMPTY_FILTERS: AuditFilters = { from: '', to: '', toolId: '', action: '', status: '' };
+
+const VERDICT_BADGES: Record<string, string> = {
+  executed: 'connected',
+  rejected: 'disconnected',
+  denied: 'disconnected',
+  failed: 'pending',
+  cancelled: 'pending',
+};
+
+/**
+ * Query string for the current filters (datetime-local values are sent as ISO timestamps)
+ */
+const buildQuery = (filters: AuditFilters, extra: Record<string, string> = {}) => {
+  const params = new URLSearchParams(extra);
+  if (filters.from) params.set('from', new Date(filters.from).toISOString());
+  if (filters.to) params.set('to', new Date(filters.to).toISOString());
+  if (filters.toolId) params.set('toolId', filters.toolId);
+  if (filters.action) params.set('action', filters.action);
+  if (filters.status) params.set('status', filters.status);
+  return params.toString();
+};
+
+export function AuditCard() {
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [offset, setOffset] = useState(0);
+  const [verification, setVerification] = useState<AuditVerification | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    loadEntries(0);
+  }, []);
+
+  const loadEntries = async (newOffset: number) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const query = buildQuery(filters, { limit: String(PAGE_SIZE), offset: String(newOffset) });
+      const res = await fetchWithAuth(`/api/audit?${query}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to load audit log');
+        return;
+      }
+      setEntries(data.entries || []);
+      setHasMore(Boolean(data.hasMore));
+      setOffset(newOffset);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load audit log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    setError(null);
+    try {
+      const res = await fetchWithAuth('/api/audit/verify');
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Verification failed');
+        return;
+      }
+      setVerification(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+    }
+  };
+
+  // The export needs the auth header, so it is fetched and saved from a blob
+  const handleExport = async (format: 'csv' | 'jsonl') => {
+    setError(null);
+    try {
+      const res = await fetchWithAuth(`/api/audit/export?${buildQuery(filters, { format })}`);
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error || 'Export failed');
+        return;
+      }
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    }
+  };
+
+  const updateFilter = (key: keyof AuditFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <>
+      <div className="card">
+        <div className="card-header">
+          <h2 className="card-title">Audit Log</h2>
+          {verification && (
+            <span className={`status-badge status-${verification.valid ? 'connected' : 'disconnected'}`}>
+              {verification.valid ? 'Chain intact' : 'Chain broken'}
+            </span>
+          )}
+        </div>
+
+        {error && <div className="alert alert-error">{error}</div>}
+        {verification && !verification.valid && verification.error && (
+          <div className="alert alert-error">
+            {verification.error.file} line {verification.error.line}: {verification.error.reason}
+          </div>
+        )}
+
+        <div className="form-row">
+          <div className="form-group">
+            <label className="form-label">From</label>
+            <input
+              type="datetime-local"
+              className="form-input"
+              value={filters.from}
+              onChange={(e) => updateFilter('from', e.target.value)}
+            />
+          </div>
+          <div className="form-group">
+            <label className="form-label">To</label>
+            <input
+              type="datetime-local"
+              className="form-input"
+              value={filters.to}
+              onChange={(e) => updateFilter('to', e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="form-row">
+          <div className="form-group">
+            <label className="form-label">Tool</label>
+            <input
+              type="text"
+              className="form-input"
+              value={filters.toolId}
+              onChange={(e) => updateFilter('toolId', e.target.value)}
+              placeholder="Any tool"
+            />
+          </div>
+          <div className="form-group">
+            <label className="form-label">Action</label>
+            <select
+              className="form-input"
+              value={filters.action}
+              onChange={(e) => updateFilter('action', e.target.value)}
+            >
+              <option value="">Any</option>
+              <option value="sql.execute">sql.execute</option>
+              <option value="file.read">file.read</option>
+              <option value="file.list">file.list</option>
+              <option value="file.search">file.search</option>
+            </select>
+          </div>
+          <div className="form-group">
+            <label className="form-label">Status</label>
+            <select
+              className="form-input"
+              value={filters.status}
+              onChange={(e) => updateFilter('status', e.target.value)}
+            >
+              <option value="">Any</option>
+              <option value="executed">Executed</option>
+              <option value="rejected">Rejected</option>
+              <option value="denied">Denied</option>
+              <option value="failed">Failed</option>
+              <option value="cancelled">Cancelled</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="btn-group">
+          <button className="btn btn-primary" onClick={() => loadEntries(0)} disabled={loading}>
+            {loading ? 'Loading...' : 'Apply Filters'}
+          </button>
+          <button className="btn btn-secondary" onClick={() => setFilters(EMPTY_FILTERS)} disabled={loading}>
+            Clear
+          </button>
+          <button className="btn btn-secondary" onClick={() => handleExport('csv')}>
+            Export CSV
+          </button>
+          <button className="btn btn-secondary" onClick={() => handleExport('jsonl')}>
+            Export JSONL
+          </button>
+          <button className="btn btn-secondary" onClick={handleVerify}>
+            Verify Chain
+          </button>
+        </div>
+      </div>
+
+      <div className="card">
+        <div className="card-header">
+          <h2 className="card-title">Entries</h2>
+          <span style={{ color: 'var(--text-muted)', fontSize: '0.875rem' }}>
+            {entries.length === 0 ? 'None' : `${offset + 1}–${offset + entries.length}${hasMore ? '' : ` of ${offset + entries.length}`}`}
+          </span>
+        </div>
+
+        {entries.length === 0 ? (
+          <p style={{ color: 'var(--text-muted)', fontSize: '0.875rem' }}>No matching entries.</p>
+        ) : (
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Time</th>
+                <th>Action</th>
+                <th>Tool / target</th>
+                <th>Status</th>
+                <th>Rows</th>
+                <th>Duration</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map(entry => (
+                <tr key={entry.seq} title={entry.error ?? entry.sql ?? undefined}>
+                  <td>{new Date(entry.timestamp).toLocaleString()}</td>
+                  <td>{entry.action}</td>
+                  <td>{entry.toolId ?? '—'}{entry.targetId ? ` @ ${entry.targetId}` : ''}</td>
+                  <td>
+                    <span className={`status-badge status-${VERDICT_BADGES[entry.verdict] ?? 'pending'}`}>
+                      {entry.verdict}
+                    </span>
+                  </td>
+                  <td>{entry.rowCount ?? '—'}</td>
+                  <td>{entry.duration} ms</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="btn-group" style={{ marginTop: '1rem' }}>
+          <button
+            className="btn btn-secondary"
+            onClick={() => loadEntries(Math.max(offset - PAGE_SIZE, 0))}
+            disabled={loading || offset === 0}
+          >
+            Previous
+          </button>
+          <button
+            className="btn btn-secondary"
+            onClick={() => loadEntries(offset + PAGE_SIZE)}
+            disabled={loading || !hasMore}
+          >
+            Next
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
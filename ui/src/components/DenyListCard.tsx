@@ -0,0 +1,222 @@
+import { useState, useEffect } from 'react';
+import { fetchWithAuth } from '../utils/fetchWithAuth';
+
+type DenyRuleType = 'toolId' | 'templateHash' | 'statementClass';
+
+interface DenyRule {
+  id: string;
+  type: DenyRuleType;
+  value: string;
+  targetId: string | null;
+  reason: string | null;
+  createdAt: string;
+}
+
+interface DenyListSummary {
+  ruleCount: number;
+  denialCount: number;
+  recentDenials: { timestamp: string; ruleId: string; toolId: string | null; targetId: string }[];
+}
+
+const RULE_TYPE_LABELS: Record<DenyRuleType, string> = {
+  toolId: 'Tool',
+  templateHash: 'Template hash',
+  statementClass: 'Statement class',
+};
+
+const VALUE_PLACEHOLDERS: Record<DenyRuleType, string> = {
+  toolId: 'e.g. orders.top_customers',
+  templateHash: 'sha256:...',
+  statementClass: '',
+};
+
+const EMPTY_RULE = { type: 'toolId' as DenyRuleType, value: '', targetId: '', reason: '' };
+
+export function DenyListCard() {
+  const [rules, setRules] = useState<DenyRule[]>([]);
+  const [summary, setSummary] = useState<DenyListSummary | null>(null);
+  const [newRule, setNewRule] = useState(EMPTY_RULE);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadDenyList();
+  }, []);
+
+  const loadDenyList = async () => {
+    try {
+      const res = await fetchWithAuth('/api/deny-list');
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to load deny-list');
+        return;
+      }
+      setRules(data.rules || []);
+      setSummary(data.summary || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load deny-list');
+    }
+  };
+
+  const handleTypeChange = (type: DenyRuleType) => {
+    setNewRule(prev => ({ ...prev, type, value: type === 'statementClass' ? 'write' : '' }));
+  };
+
+  const handleAdd = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetchWithAuth('/api/deny-list', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type: newRule.type,
+          value: newRule.value,
+          targetId: newRule.targetId || null,
+          reason: newRule.reason || null,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Failed to add rule');
+        return;
+      }
+      setNewRule(EMPTY_RULE);
+      await loadDenyList();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    setError(null);
+
+    try {
+      const res = await fetchWithAuth(`/api/deny-list/${encodeURIComponent(id)}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error || 'Failed to remove rule');
+      }
+      await loadDenyList();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove rule');
+    }
+  };
+
+  return (
+    <div className="card">
+      <div className="card-header">
+        <h2 className="card-title">Local Deny-List</h2>
+        {summary && (
+          <span className={`status-badge status-${summary.denialCount > 0 ? 'pending' : 'connected'}`}>
+            {summary.denialCount} denied
+          </span>
+        )}
+      </div>
+
+      <p style={{ color: 'var(--text-muted)', fontSize: '0.875rem', marginBottom: '1rem' }}>
+        Rules here block execution even for templates approved by the server catalog.
+      </p>
+
+      {error && <div className="alert alert-error">{error}</div>}
+
+      <div className="form-row">
+        <div className="form-group">
+          <label className="form-label">Rule type</label>
+          <select
+            className="form-input"
+            value={newRule.type}
+            onChange={(e) => handleTypeChange(e.target.value as DenyRuleType)}
+          >
+            <option value="toolId">Tool</option>
+            <option value="templateHash">Template hash</option>
+            <option value="statementClass">Statement class</option>
+          </select>
+        </div>
+        <div className="form-group">
+          <label className="form-label">Value</label>
+          {newRule.type === 'statementClass' ? (
+            <select
+              className="form-input"
+              value={newRule.value}
+              onChange={(e) => setNewRule(prev => ({ ...prev, value: e.target.value }))}
+            >
+              <option value="read">read</option>
+              <option value="write">write</option>
+              <option value="ddl">ddl</option>
+              <option value="admin">admin</option>
+            </select>
+          ) : (
+            <input
+              type="text"
+              className="form-input"
+              value={newRule.value}
+              onChange={(e) => setNewRule(prev => ({ ...prev, value: e.target.value }))}
+              placeholder={VALUE_PLACEHOLDERS[newRule.type]}
+            />
+          )}
+        </div>
+      </div>
+
+      <div className="form-row">
+        <div className="form-group">
+          <label className="form-label">SQL target (optional)</label>
+          <input
+            type="text"
+            className="form-input"
+            value={newRule.targetId}
+            onChange={(e) => setNewRule(prev => ({ ...prev, targetId: e.target.value }))}
+            placeholder="All targets"
+          />
+        </div>
+        <div className="form-group">
+          <label className="form-label">Reason (optional)</label>
+          <input
+            type="text"
+            className="form-input"
+            value={newRule.reason}
+            onChange={(e) => setNewRule(prev => ({ ...prev, reason: e.target.value }))}
+          />
+        </div>
+      </div>
+
+      <div className="btn-group">
+        <button className="btn btn-primary" onClick={handleAdd} disabled={saving || !newRule.value.trim()}>
+          {saving ? 'Adding...' : 'Add Rule'}
+        </button>
+      </div>
+
+      {rules.length > 0 && (
+        <table className="data-table" style={{ marginTop: '1rem' }}>
+          <thead>
+            <tr>
+              <th>Type</th>
+              <th>Value</th>
+              <th>Target</th>
+              <th>Reason</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rules.map(rule => (
+              <tr key={rule.id}>
+                <td>{RULE_TYPE_LABELS[rule.type]}</td>
+                <td title={rule.value}><code>{rule.value}</code></td>
+                <td>{rule.targetId ?? 'All'}</td>
+                <td>{rule.reason ?? '—'}</td>
+                <td>
+                  <button className="btn btn-secondary" onClick={() => handleRemove(rule.id)}>
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -6,7 +6,19 @@ interface SqlConfigCardProps {
   isConnected: boolean;
 }
 
-type DbType = 'mssql' | 'postgres';
+type DbType = 'mssql' | 'postgres' | 'mysql';
+
+const DEFAULT_PORTS: Record<DbType, string> = {
+  mssql: '1433',
+  postgres: '5432',
+  mysql: '3306',
+};
+
+const DB_LABELS: Record<DbType, string> = {
+  mssql: 'SQL Server',
+  postgres: 'PostgreSQL',
+  mysql: 'MySQL / MariaDB',
+};
 
 interface SqlConfig {
   dbType: DbType;
@@ -15,6 +27,7 @@ interface SqlConfig {
   user: string;
   password: string;
   database: string;
+  readOnly: boolean;
   encrypt: boolean;
   trustServerCertificate: boolean;
   sslMode: string;
@@ -28,6 +41,7 @@ export function SqlConfigCard({ onConnectionChange, isConnected }: SqlConfigCard
     user: '',
     password: '',
     database: '',
+    readOnly: false,
     encrypt: true,
     trustServerCertificate: true,
     sslMode: 'disable',
@@ -47,8 +61,8 @@ export function SqlConfigCard({ onConnectionChange, isConnected }: SqlConfigCard
       if (res.ok) {
         const data = await res.json();
         if (data.server) {
-          const dbType = data.dbType || 'mssql';
-          const defaultPort = dbType === 'postgres' ? '5432' : '1433';
+          const dbType: DbType = data.dbType || 'mssql';
+          const defaultPort = DEFAULT_PORTS[dbType];
           setConfig({
             dbType,
             server: data.server || '',
@@ -56,6 +70,7 @@ export function SqlConfigCard({ onConnectionChange, isConnected }: SqlConfigCard
             user: data.user || '',
             password: '', // Don't load password for security
             database: data.database || '',
+            readOnly: data.readOnly ?? false,
             encrypt: data.encrypt ?? true,
             trustServerCertificate: data.trustServerCertificate ?? true,
             sslMode: data.sslMode || 'disable',
@@ -74,7 +89,7 @@ export function SqlConfigCard({ onConnectionChange, isConnected }: SqlConfigCard
   };
 
   const handleDbTypeChange = (newDbType: DbType) => {
-    const defaultPort = newDbType === 'postgres' ? '5432' : '1433';
+    const defaultPort = DEFAULT_PORTS[newDbType];
     setConfig(prev => ({
       ...prev,
       dbType: newDbType,
@@ -140,12 +155,13 @@ export function SqlConfigCard({ onConnectionChange, isConnected }: SqlConfigCard
   };
 
   const isPostgres = config.dbType === 'postgres';
+  const isMysql = config.dbType === 'mysql';
 
   return (
     <div className="card">
       <div className="card-header">
         <h2 className="card-title">
-          {isPostgres ? 'PostgreSQL' : 'SQL Server'} Configuration
+          {DB_LABELS[config.dbType]} Configuration
         </h2>
         <span className={`status-badge status-${isConnected ? 'connected' : 'disconnected'}`}>
           {isConnected ? 'Connected' : 'Disconnected'}
@@ -173,6 +189,7 @@ export function SqlConfigCard({ onConnectionChange, isConnected }: SqlConfigCard
         >
           <option value="mssql">SQL Server</option>
           <option value="postgres">PostgreSQL</option>
+          <option value="mysql">MySQL / MariaDB</option>
         </select>
       </div>
 
@@ -192,7 +209,7 @@ export function SqlConfigCard({ onConnectionChange, isConnected }: SqlConfigCard
           <input
             type="text"
             className="form-input"
-            placeholder={isPostgres ? '5432' : '1433'}
+            placeholder={DEFAULT_PORTS[config.dbType]}
             value={config.port}
             onChange={(e) => handleChange('port', e.target.value)}
           />
@@ -205,7 +222,7 @@ export function SqlConfigCard({ onConnectionChange, isConnected }: SqlConfigCard
           <input
             type="text"
             className="form-input"
-            placeholder={isPostgres ? 'postgres' : 'sa'}
+            placeholder={isPostgres ? 'postgres' : isMysql ? 'root' : 'sa'}
             value={config.user}
             onChange={(e) => handleChange('user', e.target.value)}
           />
@@ -227,13 +244,13 @@ export function SqlConfigCard({ onConnectionChange, isConnected }: SqlConfigCard
         <input
           type="text"
           className="form-input"
-          placeholder={isPostgres ? 'postgres' : 'master'}
+          placeholder={isPostgres ? 'postgres' : isMysql ? 'mysql' : 'master'}
           value={config.database}
           onChange={(e) => handleChange('database', e.target.value)}
         />
       </div>
 
-      {isPostgres ? (
+      {isPostgres || isMysql ? (
         <div className="form-group" style={{ marginTop: '1rem' }}>
           <label className="form-label">SSL Mode</label>
           <select
@@ -268,6 +285,17 @@ export function SqlConfigCard({ onConnectionChange, isConnected }: SqlConfigCard
         </div>
       )}
 
+      <div className="form-group" style={{ marginTop: '1rem' }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={config.readOnly}
+            onChange={(e) => handleChange('readOnly', e.target.checked)}
+          />
+          <span style={{ fontSize: '0.875rem' }}>Read-only mode (every query runs in a rolled-back read-only transaction)</span>
+        </label>
+      </div>
+
       <div className="btn-group">
         <button
           className="btn btn-secondary"
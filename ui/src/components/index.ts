@@ -2,3 +2,6 @@ export { StatusCard } from './StatusCard';
 export { ServerConfigCard } from './ServerConfigCard';
 export { SqlConfigCard } from './SqlConfigCard';
 export { LoginScreen } from './LoginScreen';
+export { AllowlistCard } from './AllowlistCard';
+export { DenyListCard } from './DenyListCard';
+export { AuditCard } from './AuditCard';